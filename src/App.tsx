@@ -1,31 +1,80 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { useLocation, useNavigate } from 'react-router-dom'
+import { matchPath, useLocation, useNavigate } from 'react-router-dom'
 import LandingScreen from './components/LandingScreen'
 import WaitingScreen from './components/WaitingScreen'
+import JoinRoomScreen from './components/JoinRoomScreen'
+import EventScreen from './components/EventScreen'
+import HostEventModal from './components/HostEventModal'
 import ChatScreen from './components/ChatScreen'
 import AdminScreen from './components/AdminScreen'
 import ReportModal from './components/ReportModal'
 import ConfirmModal from './components/ConfirmModal'
+import FeedbackModal from './components/FeedbackModal'
 import SuccessMessage from './components/SuccessMessage'
 import PasswordModal from './components/PasswordModal'
 import HealthIndicator from './components/HealthIndicator'
 import MiddleDebate from './components/MiddleDebate'
 import { MiddleDebateProvider } from './contexts/MiddleDebateContext'
-import { useSupabase } from './contexts/SupabaseContext'
-import type { Message as DbMessage, ChatMode } from './contexts/SupabaseContext'
+import { useSupabase, DEFAULT_MATCH_PREFERENCES, TIME_EXTENSION_SEC } from './contexts/SupabaseContext'
+import type {
+  Message as DbMessage,
+  ChatMode,
+  Connection,
+  EventMeeting,
+  InviteRoom,
+  MatchPreferences,
+  MatchResult,
+  NewSpeedEvent,
+  QueueStatus,
+  RoomFeedback,
+  RoomMode,
+  SendMessageError,
+  SpeedEvent,
+  TranscriptConsent,
+  UserRole,
+} from './contexts/SupabaseContext'
 import { supabase } from './lib/supabase'
 import { initSounds, playMatchSound } from './lib/sounds'
+import { createRoomSignaling } from './lib/webrtcSignaling'
+import type { RoomSignaling } from './lib/webrtcSignaling'
+import type { ListenerReaction } from './lib/reactions'
+import { getEventPhase } from './lib/events'
+import { downloadTextFile, transcriptToJson, transcriptToMarkdown } from './lib/transcript'
 import './App.css'
 
 type Screen = 'landing' | 'waiting' | 'chat' | 'admin'
 
+const AUTO_REQUEUE_STORAGE_KEY = 'onetwoone_auto_requeue'
+// How often the landing screen checks for new connections and invites
+const CONNECTIONS_POLL_MS = 10000
+// Keeps us in the event lobby; well under matchmaking_settings.heartbeat_stale_sec
+const EVENT_POLL_MS = 5000
+// Sync just after a round boundary so the server sees it as passed
+const EVENT_BOUNDARY_SLACK_MS = 300
+// How often the end-of-session prompt checks whether the partner agreed to export
+const TRANSCRIPT_CONSENT_POLL_MS = 3000
+
 interface Message {
   id?: string
+  clientId?: string
   sender: 'system' | 'user1' | 'user2'
   senderName?: string
   text: string
   ts?: number
   isOwn?: boolean
+  // Only set on our optimistic copy until the stored row comes back
+  status?: 'pending' | 'sent' | 'failed'
+  error?: SendMessageError
+  // Set on the inline notice for a listener reaction received while we speak
+  reaction?: ListenerReaction
+}
+
+// The first system message once a room is matched
+const welcomeMessage = (role: UserRole | null, circle: boolean): string => {
+  if (circle) return "Everyone's here! Turns go around the circle."
+  return role === 'user1'
+    ? 'Connected! You will start sharing first.'
+    : 'Connected! Wait for the other person to start.'
 }
 
 interface Report {
@@ -47,10 +96,59 @@ function App() {
     peerName: contextPeerName,
     messages: dbMessages,
     healthStatus,
+    serverTimeOffset,
+    formats,
+    currentFormat,
+    peerReconnectedAt,
+    peerTyping,
+    peerReaction,
+    reactionsRemaining,
+    transcriptConsent,
+    timeRequest,
+    timeResponse,
+    modeRequest,
+    modeResponse,
+    keepInTouchConsent,
+    circleMembers,
     startChat: supabaseStartChat,
+    resumeRoom,
+    followMergedRoom,
     leaveRoom: supabaseLeaveRoom,
     sendMessage: supabaseSendMessage,
     submitReport: supabaseSubmitReport,
+    blockPeer,
+    getQueueStatus,
+    notifyTyping,
+    sendReaction,
+    consentTranscriptExport,
+    getTranscriptConsent,
+    fetchTranscript,
+    submitFeedback,
+    keepInTouch,
+    getConnections,
+    removeConnection,
+    sendConnectionInvite,
+    acceptConnectionInvite,
+    declineConnectionInvite,
+    createInviteRoom,
+    getInviteRoom,
+    joinInviteRoom,
+    startCircle,
+    createEvent,
+    getEvent,
+    joinEvent,
+    leaveEvent,
+    syncEvent,
+    enterEventRoom,
+    getEventSummary,
+    skipSegment,
+    expireSegment,
+    shufflePrompt,
+    requestTimeChange,
+    respondTimeRequest,
+    resumeSegment,
+    requestModeChange,
+    respondModeRequest,
     trackPresence,
   } = useSupabase()
 
@@ -71,17 +169,55 @@ function App() {
     cancelText?: string
     onConfirm: () => void
   } | null>(null)
+  // The optional rating step after a matched room closes; onDone carries on to the next screen
+  const [feedbackPrompt, setFeedbackPrompt] = useState<{
+    roomId: string
+    peerName: string | null
+    offerKeepInTouch: boolean
+    // Text chats can still be exported once the room has closed
+    offerTranscript: boolean
+    onDone: () => void
+  } | null>(null)
+  const [feedbackTranscriptConsent, setFeedbackTranscriptConsent] = useState<TranscriptConsent | null>(null)
   const [reports, setReports] = useState<Report[]>([])
   const [roomId, setRoomId] = useState<string | null>(null)
-  const [userRole, setUserRole] = useState<'user1' | 'user2' | null>(null)
+  const [userRole, setUserRole] = useState<UserRole | null>(null)
   const [userName, setUserName] = useState<string | null>(null)
+  const [matchPreferences, setMatchPreferences] = useState<MatchPreferences | undefined>(undefined)
   const [peerName, setPeerName] = useState<string | null>(null)
   const [isWaitingForMatch, setIsWaitingForMatch] = useState(false)
   const [middleDebateRoomId, setMiddleDebateRoomId] = useState<string | null>(null)
+  const [signaling, setSignaling] = useState<RoomSignaling | null>(null)
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null)
+  const [connections, setConnections] = useState<Connection[]>([])
+  // Who we invited into the private room we're waiting in
+  const [waitingFor, setWaitingFor] = useState<string | null>(null)
+  // Seats in the circle we're in or waiting for, null for pairs
+  const [circleSize, setCircleSize] = useState<number | null>(null)
+  // The room behind an /r/:code link; undefined while loading
+  const [inviteRoom, setInviteRoom] = useState<InviteRoom | null | undefined>(undefined)
+  // The event behind an /e/:code link; undefined while loading
+  const [speedEvent, setSpeedEvent] = useState<SpeedEvent | null | undefined>(undefined)
+  const [eventMeetings, setEventMeetings] = useState<EventMeeting[]>([])
+  // Set while the host event form is open, to the host's name
+  const [hostEventName, setHostEventName] = useState<string | null>(null)
+  const [autoRequeue, setAutoRequeue] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem(AUTO_REQUEUE_STORAGE_KEY) === 'true'
+    } catch {
+      return false
+    }
+  })
 
   const timerRef = useRef<number | null>(null)
   const roundRef = useRef<number>(1)
   const matchHandledRef = useRef(false)
+  const resumeAttemptedRef = useRef(false)
+  const closedRoomHandledRef = useRef<string | null>(null)
+  // Last mode seen for the matched room, to notice an agreed switch
+  const roomModeRef = useRef<{ roomId: string; mode: ChatMode } | null>(null)
+  // The last event round room we entered, so each one is entered once
+  const eventRoomRef = useRef<string | null>(null)
 
   // Keep refs in sync with state
   useEffect(() => {
@@ -136,6 +272,127 @@ function App() {
     }
   }, [screen, fetchReports])
 
+  const refreshConnections = useCallback(async () => {
+    setConnections(await getConnections())
+  }, [getConnections])
+
+  // Poll for connections and incoming invites while on the landing screen
+  useEffect(() => {
+    if (screen !== 'landing' || !connected) return
+    refreshConnections()
+    const interval = window.setInterval(refreshConnections, CONNECTIONS_POLL_MS)
+    return () => clearInterval(interval)
+  }, [screen, connected, refreshConnections])
+
+  const inviteCode = matchPath('/r/:code', location.pathname)?.params.code ?? null
+
+  useEffect(() => {
+    setInviteRoom(undefined)
+    if (!inviteCode || !connected) return
+
+    let cancelled = false
+    getInviteRoom(inviteCode).then((room) => {
+      if (!cancelled) setInviteRoom(room)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [inviteCode, connected, getInviteRoom])
+
+  // The closed room's export consent, for the feedback prompt. The partner may
+  // agree after we do, so keep checking until they have.
+  const feedbackTranscriptRoomId = feedbackPrompt?.offerTranscript ? feedbackPrompt.roomId : null
+  useEffect(() => {
+    setFeedbackTranscriptConsent(null)
+    if (!feedbackTranscriptRoomId) return
+
+    let cancelled = false
+    const poll = async () => {
+      const consent = await getTranscriptConsent(feedbackTranscriptRoomId)
+      if (cancelled) return
+      setFeedbackTranscriptConsent(consent)
+      if (consent?.peer) clearInterval(interval)
+    }
+
+    poll()
+    const interval = window.setInterval(poll, TRANSCRIPT_CONSENT_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [feedbackTranscriptRoomId, getTranscriptConsent])
+
+  const eventCode = matchPath('/e/:code', location.pathname)?.params.code ?? null
+
+  useEffect(() => {
+    setSpeedEvent(undefined)
+    if (!eventCode || !connected) return
+
+    let cancelled = false
+    getEvent(eventCode).then((event) => {
+      if (!cancelled) setSpeedEvent(event)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [eventCode, connected, getEvent])
+
+  // While we're in an event, poll it so we stay in the lobby, and sync again
+  // right at each round boundary so everyone rotates at the same moment
+  const eventActive = !!speedEvent?.joined && speedEvent.status !== 'ended'
+  useEffect(() => {
+    if (!eventCode || !connected || !eventActive) return
+
+    let cancelled = false
+    let boundaryTimeout: number | null = null
+
+    const sync = async () => {
+      const event = await syncEvent(eventCode)
+      if (cancelled || !event) return
+      setSpeedEvent(event)
+
+      if (event.myRoomId && event.myRoomId !== eventRoomRef.current) {
+        eventRoomRef.current = event.myRoomId
+        enterEventRound(eventCode, event)
+      }
+
+      if (boundaryTimeout !== null) clearTimeout(boundaryTimeout)
+      const now = Date.now() + serverTimeOffset
+      const phase = getEventPhase(event, now)
+      if (phase.kind !== 'ended') {
+        boundaryTimeout = window.setTimeout(sync, phase.nextChangeAt - now + EVENT_BOUNDARY_SLACK_MS)
+      }
+    }
+
+    sync()
+    const interval = window.setInterval(sync, EVENT_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+      if (boundaryTimeout !== null) clearTimeout(boundaryTimeout)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventCode, connected, eventActive, syncEvent, serverTimeOffset])
+
+  // Who we've met so far, refreshed after each round and when we're back in the lobby
+  const eventRound = speedEvent?.currentRound ?? 0
+  const eventStatus = speedEvent?.status ?? null
+  useEffect(() => {
+    if (!eventCode) {
+      setEventMeetings([])
+      return
+    }
+    if (!connected || screen !== 'landing') return
+
+    let cancelled = false
+    getEventSummary(eventCode).then((meetings) => {
+      if (!cancelled) setEventMeetings(meetings)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [eventCode, connected, screen, eventRound, eventStatus, getEventSummary])
+
   // Sync context peer name
   useEffect(() => {
     if (contextPeerName) {
@@ -147,25 +404,32 @@ function App() {
   useEffect(() => {
     if (!currentRoom) return
 
+    // Handle room closed (once per room; the closed row stays in context until the next room)
+    if (currentRoom.status === 'closed') {
+      if (closedRoomHandledRef.current !== currentRoom.id) {
+        closedRoomHandledRef.current = currentRoom.id
+        if (currentRoom.merged_into) {
+          handleRoomMerged(currentRoom.id)
+        } else {
+          handleRoomClosed()
+        }
+      }
+      return
+    }
+
     setRoomId(currentRoom.id)
     setChatMode(currentRoom.mode)
     setCurrentSegment(currentRoom.current_segment)
-
-    // Calculate time remaining from segment_start_at
-    if (currentRoom.segment_start_at) {
-      const startTime = new Date(currentRoom.segment_start_at).getTime()
-      const elapsed = Math.floor((Date.now() - startTime) / 1000)
-      const remaining = Math.max(0, currentRoom.segment_duration_sec - elapsed)
-      setTimeRemaining(remaining)
-    }
+    setRound(currentRoom.round ?? 1)
 
     // Handle match via realtime - when room status changes to 'matched'
     if (currentRoom.status === 'matched' && isWaitingForMatch && !matchHandledRef.current) {
       matchHandledRef.current = true
       console.log('[App] Match detected via realtime!')
 
-      // Fetch peer name
+      // Fetch peer name; circles list everyone through circleMembers instead
       const fetchPeer = async () => {
+        if (currentRoom.circle_size) return
         const { data: members } = await supabase
           .from('room_members')
           .select('display_name, role')
@@ -181,36 +445,117 @@ function App() {
 
       setScreen('chat')
       setIsWaitingForMatch(false)
+      setWaitingFor(null)
       playMatchSound()
 
-      const welcomeMsg =
-        userRole === 'user1'
-          ? 'Connected! You will start sharing first.'
-          : 'Connected! Wait for the other person to start.'
-      setMessages([{ sender: 'system', text: welcomeMsg }])
-    }
-
-    // Handle room closed
-    if (currentRoom.status === 'closed') {
-      handleRoomClosed()
+      setMessages([{ sender: 'system', text: welcomeMessage(userRole, !!currentRoom.circle_size) }])
     }
   }, [currentRoom, isWaitingForMatch, userId, userRole])
 
-  // Sync messages from context
+  // Sync messages from context. Local system notices and optimistic sends the
+  // server hasn't echoed back yet are kept, in time order.
   useEffect(() => {
     if (dbMessages.length > 0) {
       const convertedMessages: Message[] = dbMessages.map((msg: DbMessage) => ({
         id: msg.id,
+        clientId: msg.client_id ?? undefined,
         sender: msg.user_id === userId ? 'user1' : 'user2',
         senderName: msg.display_name || 'Stranger',
         text: msg.text,
         ts: new Date(msg.created_at).getTime(),
         isOwn: msg.user_id === userId,
       }))
-      setMessages(convertedMessages)
+      const stored = new Set(convertedMessages.map((m) => m.clientId))
+      setMessages((prev) =>
+        [
+          ...prev.filter((m) => m.sender === 'system' || m.reaction || (m.status && !stored.has(m.clientId))),
+          ...convertedMessages,
+        ].sort((a, b) => (a.ts ?? 0) - (b.ts ?? 0))
+      )
     }
   }, [dbMessages, userId])
 
+  // After a page reload, reconnect to the room we were in
+  useEffect(() => {
+    if (!connected || resumeAttemptedRef.current || location.pathname === '/middle-debate') return
+    resumeAttemptedRef.current = true
+
+    const resume = async () => {
+      const result = await resumeRoom()
+      if (!result) return
+
+      console.log('[App] Resumed room:', result)
+      setUserName(result.displayName)
+      setMatchPreferences(result.preferences)
+      setCircleSize(result.circleSize)
+      setUserRole(result.role)
+      setRoomId(result.roomId)
+      setChatMode(result.chatMode)
+      setPeerName(result.peerName)
+
+      if (result.matched) {
+        matchHandledRef.current = true
+        setIsWaitingForMatch(false)
+        setMessages([{ sender: 'system', text: 'Reconnected to your conversation.', ts: Date.now() }])
+        setScreen('chat')
+      } else {
+        setIsWaitingForMatch(true)
+        setScreen('waiting')
+      }
+    }
+    resume()
+  }, [connected, resumeRoom, location.pathname])
+
+  // Show the listener's reactions inline while we speak
+  useEffect(() => {
+    if (!peerReaction) return
+    setMessages((prev) => [
+      ...prev,
+      { sender: 'user2', text: '', reaction: peerReaction.reaction, ts: peerReaction.at },
+    ])
+  }, [peerReaction])
+
+  // The peer reloaded and came back
+  useEffect(() => {
+    if (!peerReconnectedAt) return
+    setMessages((prev) => [...prev, { sender: 'system', text: 'The other person reconnected.', ts: peerReconnectedAt }])
+  }, [peerReconnectedAt])
+
+  // The peer answered our request for more time or a pause
+  useEffect(() => {
+    if (!timeResponse) return
+    const request = timeResponse.kind === 'extend' ? `${TIME_EXTENSION_SEC} more seconds` : 'a pause'
+    const text =
+      timeResponse.kind === 'resume'
+        ? timeResponse.accepted
+          ? 'The other person agreed to resume.'
+          : 'The other person would like to stay paused a little longer.'
+        : timeResponse.accepted
+          ? `The other person agreed to ${request}.`
+          : `The other person declined ${request}.`
+    setMessages((prev) => [...prev, { sender: 'system', text, ts: timeResponse.at }])
+  }, [timeResponse])
+
+  // Both agreed to switch modes; the segment and round carry on
+  const matchedRoomId = currentRoom?.status === 'matched' ? currentRoom.id : null
+  const matchedRoomMode = currentRoom?.status === 'matched' ? currentRoom.mode : null
+  useEffect(() => {
+    if (!matchedRoomId || !matchedRoomMode) return
+    const prev = roomModeRef.current
+    roomModeRef.current = { roomId: matchedRoomId, mode: matchedRoomMode }
+    if (prev?.roomId === matchedRoomId && prev.mode !== matchedRoomMode) {
+      setMessages((msgs) => [...msgs, { sender: 'system', text: `Switched to ${matchedRoomMode} chat.`, ts: Date.now() }])
+    }
+  }, [matchedRoomId, matchedRoomMode])
+
+  useEffect(() => {
+    if (!modeResponse || modeResponse.accepted) return
+    setMessages((prev) => [
+      ...prev,
+      { sender: 'system', text: `The other person declined switching to ${modeResponse.mode} chat.`, ts: modeResponse.at },
+    ])
+  }, [modeResponse])
+
   // Sync current role from context
   useEffect(() => {
     if (currentRole) {
@@ -218,9 +563,57 @@ function App() {
     }
   }, [currentRole])
 
-  // Timer for segments
+  // Poll queue position and estimated wait while waiting for a match.
+  // Circles show how many seats are taken instead.
   useEffect(() => {
-    if (screen !== 'chat') {
+    if (screen !== 'waiting' || circleSize) {
+      setQueueStatus(null)
+      return
+    }
+
+    let cancelled = false
+    const poll = async () => {
+      const status = await getQueueStatus()
+      if (!cancelled && status) setQueueStatus(status)
+    }
+
+    poll()
+    const interval = window.setInterval(poll, 5000)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [screen, circleSize, getQueueStatus])
+
+  // WebRTC signaling channel for video/audio rooms
+  useEffect(() => {
+    if (screen !== 'chat' || !roomId || !userId) return
+    if (chatMode !== 'video' && chatMode !== 'audio') return
+
+    const channel = createRoomSignaling(roomId, userId)
+    setSignaling(channel)
+
+    return () => {
+      channel.close()
+      setSignaling(null)
+    }
+  }, [screen, roomId, userId, chatMode])
+
+  // Countdown against the server-owned segment deadline. When it runs out,
+  // either client asks the server to expire the segment; the server ignores
+  // early or duplicate requests, so both sides can do this safely.
+  const segmentEndsAt = currentRoom?.segment_ends_at ?? null
+  const roomSegment = currentRoom?.current_segment ?? 0
+  const pausedRemainingMs = currentRoom?.paused_at ? currentRoom.paused_remaining_ms ?? 0 : null
+
+  // While paused there is no deadline, so show the time that was left
+  useEffect(() => {
+    if (pausedRemainingMs !== null) setTimeRemaining(Math.ceil(pausedRemainingMs / 1000))
+  }, [pausedRemainingMs])
+
+  useEffect(() => {
+    if (screen !== 'chat' || !segmentEndsAt) {
       if (timerRef.current) {
         clearInterval(timerRef.current)
         timerRef.current = null
@@ -228,21 +621,22 @@ function App() {
       return
     }
 
-    timerRef.current = window.setInterval(() => {
-      setTimeRemaining((prev) => {
-        const newTime = prev - 1
+    const deadline = new Date(segmentEndsAt).getTime()
+    let lastExpireAttempt = 0
 
-        if (newTime <= 0) {
-          // Time's up - only user1 advances segment
-          if (userRole === 'user1') {
-            handleAdvanceSegment()
-          }
-          return 60 // Reset timer
-        }
+    const tick = () => {
+      const remainingMs = deadline - (Date.now() + serverTimeOffset)
+      setTimeRemaining(Math.max(0, Math.ceil(remainingMs / 1000)))
+
+      // Retry every few seconds in case our clock estimate ran slightly ahead of the server
+      if (remainingMs <= 0 && Date.now() - lastExpireAttempt > 3000) {
+        lastExpireAttempt = Date.now()
+        expireSegment(roomSegment)
+      }
+    }
 
-        return newTime
-      })
-    }, 1000)
+    tick()
+    timerRef.current = window.setInterval(tick, 1000)
 
     return () => {
       if (timerRef.current) {
@@ -250,10 +644,136 @@ function App() {
         timerRef.current = null
       }
     }
-  }, [screen, userRole])
+  }, [screen, segmentEndsAt, roomSegment, serverTimeOffset, expireSegment])
+
+  // Join the queue again with the same mode, name and preferences, or
+  // another circle of the same size
+  const requeue = async (mode: ChatMode, name: string): Promise<boolean> => {
+    const result =
+      circleSize && mode !== 'any'
+        ? await startCircle(mode, circleSize, name)
+        : await supabaseStartChat(mode, name, matchPreferences)
+    if (!result) return false
+
+    setUserRole(result.role)
+    if (result.matched) {
+      setRoomId(result.roomId)
+      setPeerName(result.peerName)
+      setScreen('chat')
+      playMatchSound()
+    } else {
+      setRoomId(result.roomId)
+      setIsWaitingForMatch(true)
+      setScreen('waiting')
+    }
+    return true
+  }
+
+  // Ask for feedback on a room we were matched in, then continue; rooms that never matched go straight on
+  const askForFeedback = (closedRoomId: string | null, onDone: () => void) => {
+    // Events keep to their schedule instead
+    if (!closedRoomId || currentRoom?.event_id) {
+      onDone()
+      return
+    }
+    // A circle is rated as a whole, and keeping in touch needs a single partner
+    setFeedbackPrompt({
+      roomId: closedRoomId,
+      peerName: circleSize ? null : peerName,
+      offerKeepInTouch: !circleSize && !keepInTouchConsent.mine,
+      offerTranscript: chatMode === 'text' && !circleSize,
+      onDone,
+    })
+  }
+
+  const handleFeedbackSubmit = async (feedback: RoomFeedback | null, wantsToKeepInTouch: boolean) => {
+    if (!feedbackPrompt) return
+    const { roomId: ratedRoomId, onDone } = feedbackPrompt
+    setFeedbackPrompt(null)
+    onDone()
+
+    if (wantsToKeepInTouch && userName) {
+      await keepInTouch(ratedRoomId, userName)
+    }
+    if (!feedback) {
+      setSuccessMessage("If they want to keep in touch too, you'll find them on the home screen.")
+      setShowSuccessMessage(true)
+      return
+    }
+
+    try {
+      await submitFeedback(ratedRoomId, feedback)
+      setSuccessMessage('Thanks for your feedback!')
+    } catch {
+      setSuccessMessage('Failed to send feedback.')
+    }
+    setShowSuccessMessage(true)
+  }
+
+  const handleFeedbackTranscriptConsent = async () => {
+    if (!feedbackPrompt) return
+    const consent = await consentTranscriptExport(feedbackPrompt.roomId)
+    if (consent) setFeedbackTranscriptConsent(consent)
+  }
+
+  const handleFeedbackSkip = () => {
+    if (!feedbackPrompt) return
+    const { onDone } = feedbackPrompt
+    setFeedbackPrompt(null)
+    onDone()
+  }
+
+  const handleRoomClosed = async () => {
+    // The person we invited said no; there is no match to rate or requeue from
+    if (screen === 'waiting' && waitingFor) {
+      setSuccessMessage(`${waitingFor} can't make it right now.`)
+      setShowSuccessMessage(true)
+      setScreen('landing')
+      setChatMode(null)
+      setRoomId(null)
+      setUserRole(null)
+      setIsWaitingForMatch(false)
+      setWaitingFor(null)
+      matchHandledRef.current = false
+      trackPresence(null)
+      return
+    }
+
+    // A speed-chat round ended, or our partner left it; back to the event lobby
+    if (currentRoom?.event_id) {
+      const phase = speedEvent ? getEventPhase(speedEvent, Date.now() + serverTimeOffset) : null
+      const partnerLeft = phase?.kind === 'round' && phase.round === currentRoom.event_round
+      setSuccessMessage(
+        partnerLeft
+          ? "The other person has left. You'll meet someone new next round."
+          : phase?.kind === 'ended'
+            ? 'That was the last round. Thanks for taking part!'
+            : 'Time is up for this round.'
+      )
+      setShowSuccessMessage(true)
+      setScreen('landing')
+      setMessages([])
+      setCurrentSegment(0)
+      setRound(1)
+      setTimeRemaining(60)
+      setRoomId(null)
+      setUserRole(null)
+      setPeerName(null)
+      setIsWaitingForMatch(false)
+      matchHandledRef.current = false
+      trackPresence(null)
+      return
+    }
 
-  const handleRoomClosed = () => {
-    setSuccessMessage('The other person has left the chat.')
+    const closedRoomId = screen === 'chat' ? roomId : null
+    const shouldRequeue = autoRequeue && chatMode && userName
+    if (circleSize) {
+      setSuccessMessage(shouldRequeue ? 'The circle has ended. Finding a new one...' : 'The circle has ended.')
+    } else {
+      setSuccessMessage(
+        shouldRequeue ? 'The other person has left. Finding someone new...' : 'The other person has left the chat.'
+      )
+    }
     setShowSuccessMessage(true)
 
     setMessages([])
@@ -265,35 +785,39 @@ function App() {
     setPeerName(null)
     setIsWaitingForMatch(false)
     matchHandledRef.current = false
-    setScreen('landing')
-    trackPresence(null)
-  }
 
-  const handleAdvanceSegment = async () => {
-    const nextSegment = (currentSegment + 1) % 4
-    const isNewRound = currentSegment === 3 && nextSegment === 0
-    const newRound = isNewRound ? round + 1 : round
+    askForFeedback(closedRoomId, async () => {
+      if (shouldRequeue && (await requeue(chatMode, userName))) return
 
-    setCurrentSegment(nextSegment)
-    setTimeRemaining(60)
+      setScreen('landing')
+      trackPresence(null)
+    })
+  }
 
-    if (isNewRound) {
-      setRound(newRound)
+  // The server paired our waiting room with an older one; carry on in that room
+  const handleRoomMerged = async (closedRoomId: string) => {
+    matchHandledRef.current = true
+    const result = await followMergedRoom(closedRoomId)
+    if (result) {
+      console.log('[App] Waiting room merged:', result)
+      showMatchResult(result)
+      return
     }
 
-    // Update room in database
-    if (roomId) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase.from('rooms') as any)
-        .update({
-          current_segment: nextSegment,
-          segment_start_at: new Date().toISOString(),
-        })
-        .eq('id', roomId)
+    matchHandledRef.current = false
+    handleRoomClosed()
+  }
+
+  const handleAutoRequeueChange = (enabled: boolean) => {
+    setAutoRequeue(enabled)
+    try {
+      localStorage.setItem(AUTO_REQUEUE_STORAGE_KEY, String(enabled))
+    } catch (error) {
+      console.warn('Failed to save auto-requeue setting to localStorage:', error)
     }
   }
 
-  const startChat = async (mode: ChatMode, name: string) => {
+  const startChat = async (mode: ChatMode, name: string, preferences: MatchPreferences) => {
     if (!connected) {
       alert('Please wait for the connection to be established.')
       return
@@ -315,8 +839,25 @@ function App() {
       console.warn('Failed to save name to localStorage:', error)
     }
 
+    prepareForRoom(mode, finalName, preferences)
+
+    // Call Supabase matchmaking
+    const result = await supabaseStartChat(mode, finalName, preferences)
+
+    if (!result) {
+      alert('Failed to start chat. Please try again.')
+      return
+    }
+
+    console.log('[App] Matchmaking result:', result)
+    showMatchResult(result)
+  }
+
+  // Forget the last conversation before joining a new room
+  const prepareForRoom = (mode: ChatMode, name: string, preferences: MatchPreferences) => {
     setChatMode(mode)
-    setUserName(finalName)
+    setUserName(name)
+    setMatchPreferences(preferences)
     setPeerName(null)
     setMessages([])
     setCurrentSegment(0)
@@ -324,18 +865,13 @@ function App() {
     setTimeRemaining(60)
     setRoomId(null)
     setUserRole(null)
+    setWaitingFor(null)
+    setCircleSize(null)
     matchHandledRef.current = false
+  }
 
-    // Call Supabase matchmaking
-    const result = await supabaseStartChat(mode, finalName)
-
-    if (!result) {
-      alert('Failed to start chat. Please try again.')
-      return
-    }
-
-    console.log('[App] Matchmaking result:', result)
-    setUserRole(result.role as 'user1' | 'user2')
+  const showMatchResult = (result: MatchResult) => {
+    setUserRole(result.role)
 
     if (result.matched) {
       // Already matched!
@@ -346,11 +882,7 @@ function App() {
       setIsWaitingForMatch(false)
       playMatchSound()
 
-      const welcomeMsg =
-        result.role === 'user1'
-          ? 'Connected! You will start sharing first.'
-          : 'Connected! Wait for the other person to start.'
-      setMessages([{ sender: 'system', text: welcomeMsg }])
+      setMessages([{ sender: 'system', text: welcomeMessage(result.role, result.circleSize !== null) }])
     } else {
       // Waiting for match - realtime subscription will detect match
       setRoomId(result.roomId)
@@ -359,6 +891,162 @@ function App() {
     }
   }
 
+  const handleInviteConnection = async (
+    connection: Connection,
+    mode: RoomMode,
+    name: string,
+    preferences: MatchPreferences
+  ) => {
+    if (!connected) {
+      alert('Please wait for the connection to be established.')
+      return
+    }
+
+    prepareForRoom(mode, name, preferences)
+    const result = await sendConnectionInvite(connection.id, mode, name, preferences.formatId)
+    if (!result) {
+      alert('Failed to send the invite. Please try again.')
+      return
+    }
+
+    setWaitingFor(connection.peerName || 'Stranger')
+    showMatchResult(result)
+  }
+
+  const handleAcceptInvite = async (connection: Connection, name: string, preferences: MatchPreferences) => {
+    if (!connection.incomingInviteId) return
+    if (!connected) {
+      alert('Please wait for the connection to be established.')
+      return
+    }
+
+    prepareForRoom(connection.incomingInviteMode ?? 'any', name, preferences)
+    const result = await acceptConnectionInvite(connection.incomingInviteId, name)
+    if (!result) {
+      setSuccessMessage('That invite is no longer open.')
+      setShowSuccessMessage(true)
+      refreshConnections()
+      return
+    }
+
+    showMatchResult(result)
+  }
+
+  const handleDeclineInvite = async (connection: Connection) => {
+    if (!connection.incomingInviteId) return
+    await declineConnectionInvite(connection.incomingInviteId)
+    refreshConnections()
+  }
+
+  const handleRemoveConnection = (connection: Connection) => {
+    setConfirmModal({
+      title: 'Remove Connection',
+      message: `Stop keeping in touch with ${connection.peerName || 'this person'}? Neither of you will be able to invite the other.`,
+      confirmText: 'Remove',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        setConfirmModal(null)
+        await removeConnection(connection.id)
+        refreshConnections()
+      },
+    })
+  }
+
+  const handleCreatePrivateRoom = async (mode: RoomMode, name: string, preferences: MatchPreferences) => {
+    if (!connected) {
+      alert('Please wait for the connection to be established.')
+      return
+    }
+
+    prepareForRoom(mode, name, preferences)
+    const result = await createInviteRoom(mode, name, preferences.formatId)
+    if (!result) {
+      alert('Failed to create a private room. Please try again.')
+      return
+    }
+
+    showMatchResult(result)
+  }
+
+  const handleJoinInviteRoom = async (name: string) => {
+    if (!inviteCode || !inviteRoom) return
+
+    prepareForRoom(inviteRoom.mode, name, { ...DEFAULT_MATCH_PREFERENCES, formatId: inviteRoom.formatId })
+    const result = await joinInviteRoom(inviteCode, name)
+    if (!result) {
+      setInviteRoom({ ...inviteRoom, isOpen: false })
+      return
+    }
+
+    navigate('/')
+    showMatchResult(result)
+  }
+
+  const handleStartCircle = async (mode: RoomMode, size: number, name: string, preferences: MatchPreferences) => {
+    if (!connected) {
+      alert('Please wait for the connection to be established.')
+      return
+    }
+
+    prepareForRoom(mode, name, preferences)
+    setCircleSize(size)
+    const result = await startCircle(mode, size, name)
+    if (!result) {
+      alert('Failed to join a circle. Please try again.')
+      return
+    }
+
+    showMatchResult(result)
+  }
+
+  const enterEventRound = async (code: string, event: SpeedEvent) => {
+    prepareForRoom(event.mode, event.myName || 'Stranger', DEFAULT_MATCH_PREFERENCES)
+    const result = await enterEventRoom(code)
+    if (!result) {
+      // Let the next sync try again
+      eventRoomRef.current = null
+      return
+    }
+
+    showMatchResult(result)
+  }
+
+  const handleJoinEvent = async (name: string) => {
+    if (!eventCode) return
+
+    if (!(await joinEvent(eventCode, name))) {
+      alert('Could not join this event. It may be over.')
+      return
+    }
+
+    setUserName(name)
+    setSpeedEvent(await getEvent(eventCode))
+  }
+
+  const handleLeaveEvent = async () => {
+    if (eventCode) await leaveEvent(eventCode)
+    navigate('/')
+  }
+
+  const handleCreateEvent = async (event: NewSpeedEvent) => {
+    const name = hostEventName
+    setHostEventName(null)
+    if (!name) return
+
+    const code = await createEvent(event, name)
+    if (!code) {
+      alert('Failed to create the event. Please try again.')
+      return
+    }
+
+    setUserName(name)
+    navigate(`/e/${code}`)
+  }
+
+  const handleKeepInTouch = () => {
+    if (roomId && userName) keepInTouch(roomId, userName)
+  }
+
   const handleNext = () => {
     setConfirmModal({
       title: 'Move to Next Person',
@@ -367,6 +1055,8 @@ function App() {
       cancelText: 'Cancel',
       onConfirm: async () => {
         setConfirmModal(null)
+        const leftRoomId = roomId
+        const leftEventRoom = !!currentRoom?.event_id
         await supabaseLeaveRoom()
 
         setMessages([])
@@ -378,23 +1068,19 @@ function App() {
         setPeerName(null)
         matchHandledRef.current = false
 
-        if (chatMode && userName) {
-          // Re-queue for matching
-          const result = await supabaseStartChat(chatMode, userName)
-          if (result) {
-            setUserRole(result.role as 'user1' | 'user2')
-            if (result.matched) {
-              setRoomId(result.roomId)
-              setPeerName(result.peerName)
-              setScreen('chat')
-              playMatchSound()
-            } else {
-              setRoomId(result.roomId)
-              setIsWaitingForMatch(true)
-              setScreen('waiting')
-            }
-          }
+        // The event pairs us again next round
+        if (leftEventRoom) {
+          setScreen('landing')
+          trackPresence(null)
+          return
         }
+
+        askForFeedback(leftRoomId, () => {
+          if (chatMode && userName) {
+            // Re-queue for matching
+            requeue(chatMode, userName)
+          }
+        })
       },
     })
   }
@@ -407,8 +1093,48 @@ function App() {
       cancelText: 'Cancel',
       onConfirm: async () => {
         setConfirmModal(null)
+        const leftRoomId = roomId
+        await supabaseLeaveRoom()
+
+        setScreen('landing')
+        setMessages([])
+        setCurrentSegment(0)
+        setRound(1)
+        setTimeRemaining(60)
+        setChatMode(null)
+        setRoomId(null)
+        setUserRole(null)
+        setPeerName(null)
+        setIsWaitingForMatch(false)
+        matchHandledRef.current = false
+        trackPresence(null)
+        askForFeedback(leftRoomId, () => {})
+      },
+    })
+  }
+
+  const handleBlock = () => {
+    setConfirmModal({
+      title: 'Block This Person',
+      message: "You won't be matched with them again. This will also end the current chat.",
+      confirmText: 'Yes, Block',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        setConfirmModal(null)
+
+        try {
+          await blockPeer()
+        } catch (error) {
+          console.error('Failed to block user:', error)
+          setSuccessMessage('Failed to block. Please try again.')
+          setShowSuccessMessage(true)
+          return
+        }
+
         await supabaseLeaveRoom()
 
+        setSuccessMessage("Blocked. You won't be matched with them again.")
+        setShowSuccessMessage(true)
         setScreen('landing')
         setMessages([])
         setCurrentSegment(0)
@@ -464,12 +1190,28 @@ function App() {
     }
   }
 
-  const handleSkip = async () => {
-    if (userRole !== 'user1') {
-      console.log('[App] Only user1 can skip segments')
+  // The current room's transcript, or a closed room's from the feedback prompt
+  const handleDownloadTranscript = async (format: 'markdown' | 'json', transcriptRoomId?: string) => {
+    const transcript = await fetchTranscript(transcriptRoomId)
+    if (!transcript) {
+      setSuccessMessage('Could not load the transcript. Please try again.')
+      setShowSuccessMessage(true)
+      setTimeout(() => {
+        setShowSuccessMessage(false)
+      }, 2000)
       return
     }
-    await handleAdvanceSegment()
+
+    const filename = `onetwoone-transcript-${new Date().toISOString().slice(0, 10)}`
+    if (format === 'markdown') {
+      downloadTextFile(`${filename}.md`, transcriptToMarkdown(transcript), 'text/markdown')
+    } else {
+      downloadTextFile(`${filename}.json`, transcriptToJson(transcript), 'application/json')
+    }
+  }
+
+  const handleSkip = async () => {
+    await skipSegment(currentSegment)
   }
 
   const sendMessage = async (text: string) => {
@@ -478,21 +1220,38 @@ function App() {
       return
     }
 
-    // Add message locally first for instant feedback
-    const messageId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    // Add message locally first for instant feedback; the stored row carries the same client id
+    const clientId = crypto.randomUUID()
     const newMessage: Message = {
-      id: messageId,
+      clientId,
       sender: 'user1',
       senderName: userName,
       text: text,
       ts: Date.now(),
       isOwn: true,
+      status: 'pending',
     }
 
     setMessages((prev) => [...prev, newMessage])
+    await deliverMessage(clientId, text, userName)
+  }
+
+  const retryMessage = async (clientId: string) => {
+    const failed = messages.find((m) => m.clientId === clientId && m.status === 'failed')
+    if (!failed || !userName) return
+
+    setMessageStatus(clientId, 'pending')
+    await deliverMessage(clientId, failed.text, userName)
+  }
+
+  const deliverMessage = async (clientId: string, text: string, name: string) => {
+    const error = await supabaseSendMessage(text, name, clientId)
+    setMessageStatus(clientId, error ? 'failed' : 'sent', error ?? undefined)
+  }
 
-    // Send to Supabase
-    await supabaseSendMessage(text, userName)
+  // Only touches the optimistic copy; once the stored row has replaced it there is nothing to update
+  const setMessageStatus = (clientId: string, status: NonNullable<Message['status']>, error?: SendMessageError) => {
+    setMessages((prev) => prev.map((m) => (m.clientId === clientId && m.status ? { ...m, status, error } : m)))
   }
 
   const handleWaitingBack = async () => {
@@ -508,6 +1267,7 @@ function App() {
     setRound(1)
     setTimeRemaining(60)
     setIsWaitingForMatch(false)
+    setWaitingFor(null)
     matchHandledRef.current = false
     trackPresence(null)
   }
@@ -555,17 +1315,64 @@ function App() {
         </MiddleDebateProvider>
       )}
 
-      {screen === 'landing' && location.pathname !== '/middle-debate' && (
+      {screen === 'landing' && inviteCode && (
+        <JoinRoomScreen
+          inviteRoom={inviteRoom}
+          formats={formats}
+          connected={connected}
+          onJoin={handleJoinInviteRoom}
+          onBack={() => navigate('/')}
+        />
+      )}
+
+      {screen === 'landing' && eventCode && (
+        <EventScreen
+          event={speedEvent}
+          meetings={eventMeetings}
+          serverTimeOffset={serverTimeOffset}
+          connected={connected}
+          onJoin={handleJoinEvent}
+          onLeave={handleLeaveEvent}
+          onBack={() => navigate('/')}
+        />
+      )}
+
+      {screen === 'landing' && location.pathname !== '/middle-debate' && !inviteCode && !eventCode && (
         <LandingScreen
           userCounts={userCounts}
+          formats={formats}
           onStartChat={startChat}
+          autoRequeue={autoRequeue}
+          onAutoRequeueChange={handleAutoRequeueChange}
+          connections={connections}
+          onInviteConnection={handleInviteConnection}
+          onAcceptInvite={handleAcceptInvite}
+          onDeclineInvite={handleDeclineInvite}
+          onRemoveConnection={handleRemoveConnection}
+          onCreatePrivateRoom={handleCreatePrivateRoom}
+          onStartCircle={handleStartCircle}
+          onHostEvent={setHostEventName}
           onShowAdmin={() => setShowPasswordModal(true)}
           onShowMiddleDebate={() => navigate('/middle-debate')}
           connected={connected}
         />
       )}
 
-      {screen === 'waiting' && <WaitingScreen onBack={handleWaitingBack} />}
+      {screen === 'waiting' && (
+        <WaitingScreen
+          queueStatus={queueStatus}
+          chosenMode={chatMode}
+          acceptableModes={currentRoom?.acceptable_modes ?? []}
+          waitingFor={waitingFor}
+          inviteLink={currentRoom?.invite_code ? `${window.location.origin}/r/${currentRoom.invite_code}` : null}
+          circleProgress={
+            currentRoom?.circle_size
+              ? { joined: currentRoom.circle_seats.length, size: currentRoom.circle_size }
+              : null
+          }
+          onBack={handleWaitingBack}
+        />
+      )}
 
       {screen === 'admin' && <AdminScreen reports={reports} onBack={() => setScreen('landing')} />}
 
@@ -579,14 +1386,39 @@ function App() {
           onNext={handleNext}
           onEnd={handleEnd}
           onReport={handleReport}
+          onBlock={handleBlock}
           onSkip={handleSkip}
+          roundPrompt={currentRoom?.prompt_text ?? null}
+          onShufflePrompt={shufflePrompt}
+          paused={pausedRemainingMs !== null}
+          canResumeAlone={!currentRoom?.paused_by || currentRoom.paused_by === userId}
+          timeRequest={timeRequest}
+          onRequestTime={requestTimeChange}
+          onRespondTime={respondTimeRequest}
+          onResume={resumeSegment}
+          modeRequest={modeRequest}
+          onRequestMode={requestModeChange}
+          onRespondMode={respondModeRequest}
           onSendMessage={sendMessage}
+          onRetryMessage={retryMessage}
+          onTyping={notifyTyping}
+          onReact={sendReaction}
+          peerTyping={peerTyping}
+          reactionsRemaining={reactionsRemaining}
+          transcriptConsent={transcriptConsent}
+          onConsentTranscript={() => consentTranscriptExport()}
+          onDownloadTranscript={handleDownloadTranscript}
+          keepInTouchConsent={keepInTouchConsent}
+          onKeepInTouch={handleKeepInTouch}
           roomId={roomId}
           userId={userRole}
           peerId={null}
-          socket={null}
+          socket={signaling}
           userName={userName || 'You'}
-          peerName={peerName || 'Stranger'}
+          peerName={peerName || (circleSize ? 'Someone' : 'Stranger')}
+          circleMembers={circleSize ? circleMembers : null}
+          format={currentFormat}
+          sharedTags={currentRoom?.shared_tags ?? []}
         />
       )}
 
@@ -605,6 +1437,20 @@ function App() {
         />
       )}
 
+      {hostEventName && <HostEventModal onCreate={handleCreateEvent} onCancel={() => setHostEventName(null)} />}
+
+      {feedbackPrompt && (
+        <FeedbackModal
+          peerName={feedbackPrompt.peerName}
+          offerKeepInTouch={feedbackPrompt.offerKeepInTouch}
+          onSubmit={handleFeedbackSubmit}
+          onSkip={handleFeedbackSkip}
+          transcriptConsent={feedbackTranscriptConsent}
+          onConsentTranscript={handleFeedbackTranscriptConsent}
+          onDownloadTranscript={(format) => handleDownloadTranscript(format, feedbackPrompt.roomId)}
+        />
+      )}
+
       {showSuccessMessage && (
         <SuccessMessage
           message={successMessage}
@@ -1,47 +1,42 @@
-import { useEffect, useMemo, useRef } from "react"
+import { useEffect, useRef } from "react"
+import { attachLocalStream } from "../lib/webrtcSignaling"
+import type { RoomSignaling, SignalingMessage } from "../lib/webrtcSignaling"
+import type { UserRole } from "../contexts/SupabaseContext"
 import "./AudioChat.css"
 
-type UserId = "user1" | "user2"
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type SocketLike = any // Socket.IO removed, using any for compatibility
+type UserId = UserRole
 
 interface AudioChatProps {
+  canSpeak: boolean
   roomId: string
   userId: UserId | null
-  socket: SocketLike
-  currentSegment: number // 0-3 (array index)
+  socket: RoomSignaling | null
+  currentSegment: number // index into the conversation format's segments
 }
 
-type OfferMsg = { roomId: string; offer: RTCSessionDescriptionInit; fromId: string }
-type AnswerMsg = { roomId: string; answer: RTCSessionDescriptionInit; fromId: string }
-type IceMsg = { roomId: string; candidate: RTCIceCandidateInit; fromId: string }
-
-// Mic permission: segment is array index (0-3), returns true if user can speak
-function micAllowed(segment: number, userId: UserId): boolean {
-  if (segment === 0) return userId === "user1"
-  if (segment === 1) return userId === "user2"
-  if (segment === 2) return userId === "user2"
-  if (segment === 3) return userId === "user1"
-  return false
-}
+type OfferMsg = SignalingMessage & { offer: RTCSessionDescriptionInit }
+type AnswerMsg = SignalingMessage & { answer: RTCSessionDescriptionInit }
+type IceMsg = SignalingMessage & { candidate: RTCIceCandidateInit }
 
-export default function AudioChat({ roomId, userId, socket, currentSegment }: AudioChatProps) {
+export default function AudioChat({ canSpeak, roomId, userId, socket, currentSegment }: AudioChatProps) {
   const localAudioRef = useRef<HTMLAudioElement | null>(null)
   const remoteAudioRef = useRef<HTMLAudioElement | null>(null)
 
   const pcRef = useRef<RTCPeerConnection | null>(null)
   const localStreamRef = useRef<MediaStream | null>(null)
 
-  const audioTxRef = useRef<RTCRtpTransceiver | null>(null)
   const iceBufferRef = useRef<RTCIceCandidateInit[]>([])
 
   const initKeyRef = useRef<string | null>(null)
+  const socketRef = useRef<RoomSignaling | null>(socket)
+  // Perfect negotiation state: user2 is the polite peer and yields on offer glare
+  const makingOfferRef = useRef(false)
+  const ignoreOfferRef = useRef(false)
+
+  socketRef.current = socket
 
-  const desiredMicOn = useMemo(() => {
-    if (!userId) return false
-    return micAllowed(currentSegment, userId)
-  }, [currentSegment, userId])
+  // Mic follows the conversation format's speaker for the current segment
+  const desiredMicOn = canSpeak && !!userId
 
   console.log("[AudioChat] render", {
     roomId,
@@ -78,17 +73,40 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
       pcRef.current?.close()
     } catch {}
     pcRef.current = null
-    audioTxRef.current = null
     iceBufferRef.current = []
+    makingOfferRef.current = false
+    ignoreOfferRef.current = false
 
     const pc = new RTCPeerConnection({
       iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
     })
     pcRef.current = pc
+    const remoteStream = new MediaStream()
 
     pc.onsignalingstatechange = () => console.log("[PC] signalingState", pc.signalingState)
     pc.oniceconnectionstatechange = () => console.log("[PC] ICE", pc.iceConnectionState)
-    pc.onconnectionstatechange = () => console.log("[PC] connection", pc.connectionState)
+    pc.onconnectionstatechange = () => {
+      console.log("[PC] connection", pc.connectionState)
+      if (pc.connectionState === "failed" && !cancelled) {
+        console.log("[PC] connection failed, restarting ICE")
+        pc.restartIce()
+      }
+    }
+
+    // Initial offer from user1 and any later renegotiation go through here
+    pc.onnegotiationneeded = async () => {
+      try {
+        makingOfferRef.current = true
+        await pc.setLocalDescription()
+        if (cancelled || !pc.localDescription) return
+        console.log("[SIGNAL OUT] offer", "me=", socket.id, "room=", roomId)
+        socketRef.current?.emit("webrtc-offer", { offer: pc.localDescription.toJSON() })
+      } catch (e) {
+        console.error("[SIGNAL] negotiation error:", e)
+      } finally {
+        makingOfferRef.current = false
+      }
+    }
 
     pc.onicecandidate = (e) => {
       if (cancelled) return
@@ -97,15 +115,16 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
         return
       }
       console.log("[SIGNAL OUT] ice-candidate", "me=", socket.id, "room=", roomId)
-      socket.emit("webrtc-ice-candidate", { roomId, candidate: e.candidate.toJSON?.() ?? e.candidate })
+      socketRef.current?.emit("webrtc-ice-candidate", { candidate: e.candidate.toJSON() })
     }
 
     pc.ontrack = (e) => {
       if (cancelled) return
       const el = remoteAudioRef.current
       if (!el) return
-      const stream = e.streams?.[0] ?? new MediaStream([e.track])
-      el.srcObject = stream
+      const stream = e.streams?.[0] ?? remoteStream
+      if (!e.streams?.[0]) remoteStream.addTrack(e.track)
+      if (el.srcObject !== stream) el.srcObject = stream
       el.play().catch(() => {})
       console.log("[PC] ontrack", e.track.kind, e.track.id)
     }
@@ -164,22 +183,17 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
         
         console.log("[INIT] Audio track obtained:", track.id, "enabled:", track.enabled, "readyState:", track.readyState)
 
-        if (cancelled || pcRef.current !== pc) return
-        audioTxRef.current = pc.addTransceiver("audio", { direction: "sendrecv" })
-        await audioTxRef.current.sender.replaceTrack(track)
-
         track.enabled = desiredMicOn
-        audioTxRef.current.sender.track && (audioTxRef.current.sender.track.enabled = desiredMicOn)
 
-        console.log("[INIT] transceivers:", pc.getTransceivers().length, "senders:", pc.getSenders().length)
+        if (cancelled || pcRef.current !== pc) return
 
-        if (userId === "user1") {
-          const offer = await pc.createOffer()
-          if (cancelled) return
-          await pc.setLocalDescription(offer)
-          console.log("[SIGNAL OUT] offer", "me=", socket.id, "room=", roomId)
-          socket.emit("webrtc-offer", { roomId, offer })
+        // user1 starts negotiation; user2 attaches to the offered transceiver, or
+        // renegotiates itself if the offer was already answered
+        if (userId === "user1" || pc.remoteDescription) {
+          await attachLocalStream(pc, stream)
         }
+
+        console.log("[INIT] transceivers:", pc.getTransceivers().length, "senders:", pc.getSenders().length)
       } catch (err: any) {
         if (!cancelled) {
           console.error("[INIT] getUserMedia error:", err)
@@ -202,6 +216,7 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
 
     return () => {
       cancelled = true
+      initKeyRef.current = null
       try {
         localStreamRef.current?.getTracks().forEach((t) => t.stop())
       } catch {}
@@ -210,7 +225,6 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
         pc.close()
       } catch {}
       if (pcRef.current === pc) pcRef.current = null
-      audioTxRef.current = null
       iceBufferRef.current = []
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -220,12 +234,12 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
     const track = localStreamRef.current?.getAudioTracks?.()[0]
     if (track) track.enabled = desiredMicOn
 
-    const senderTrack = audioTxRef.current?.sender?.track
-    if (senderTrack) senderTrack.enabled = desiredMicOn
-
     const pc = pcRef.current
     if (pc) {
       const audioSenders = pc.getSenders().filter((s) => s.track?.kind === "audio")
+      audioSenders.forEach((s) => {
+        if (s.track) s.track.enabled = desiredMicOn
+      })
       console.log("[SEG] state", {
         segment: currentSegment,
         userId,
@@ -239,101 +253,111 @@ export default function AudioChat({ roomId, userId, socket, currentSegment }: Au
   useEffect(() => {
     if (!socket || !roomId || !userId) return
 
+    const polite = userId === "user2"
+
+    const flushIceBuffer = async (pc: RTCPeerConnection) => {
+      const buffered = iceBufferRef.current
+      iceBufferRef.current = []
+      for (const c of buffered) {
+        try {
+          await pc.addIceCandidate(c)
+        } catch {}
+      }
+    }
+
+    const onPeerJoined = (msg: SignalingMessage) => {
+      const pc = pcRef.current
+      if (!pc) return
+      if (pc.signalingState === "have-local-offer" && pc.localDescription) {
+        console.log("[SIGNAL OUT] resend offer", "to=", msg.fromId, "room=", roomId)
+        socket.emit("webrtc-offer", { offer: pc.localDescription.toJSON() })
+      }
+    }
+
     const onOffer = async (msg: OfferMsg) => {
-      if (msg.roomId !== roomId) return
-      if (msg.fromId === socket.id) return
-      if (userId !== "user2") return
-      if (!pcRef.current) return
+      const pc = pcRef.current
+      if (!pc) return
+
+      const collision = makingOfferRef.current || pc.signalingState !== "stable"
+      ignoreOfferRef.current = !polite && collision
+      if (ignoreOfferRef.current) {
+        console.log("[SIGNAL IN] ignore colliding offer", "from=", msg.fromId)
+        return
+      }
 
       console.log("[SIGNAL IN] offer", "from=", msg.fromId, "me=", socket.id, "room=", roomId)
 
       try {
-        await pcRef.current.setRemoteDescription(new RTCSessionDescription(msg.offer))
+        await pc.setRemoteDescription(msg.offer)
+        await flushIceBuffer(pc)
 
-        const buffered = iceBufferRef.current
-        iceBufferRef.current = []
-        for (const c of buffered) {
-          try {
-            await pcRef.current.addIceCandidate(new RTCIceCandidate(c))
-          } catch {}
+        if (localStreamRef.current) {
+          await attachLocalStream(pc, localStreamRef.current)
         }
 
-        const answer = await pcRef.current.createAnswer()
-        await pcRef.current.setLocalDescription(answer)
+        await pc.setLocalDescription()
+        if (!pc.localDescription) return
 
         console.log("[SIGNAL OUT] answer", "me=", socket.id, "room=", roomId)
-        socket.emit("webrtc-answer", { roomId, answer })
+        socket.emit("webrtc-answer", { answer: pc.localDescription.toJSON() })
       } catch (e) {
         console.error("[SIGNAL] offer error:", e)
       }
     }
 
     const onAnswer = async (msg: AnswerMsg) => {
-      if (msg.roomId !== roomId) return
-      if (msg.fromId === socket.id) return
-      if (userId !== "user1") return
-      if (!pcRef.current) return
+      const pc = pcRef.current
+      if (!pc) return
 
       console.log("[SIGNAL IN] answer", "from=", msg.fromId, "me=", socket.id, "room=", roomId)
 
       try {
-        if (pcRef.current.signalingState !== "have-local-offer") {
-          console.warn("[SIGNAL] ignore answer, state:", pcRef.current.signalingState)
+        if (pc.signalingState !== "have-local-offer") {
+          console.warn("[SIGNAL] ignore answer, state:", pc.signalingState)
           return
         }
-        await pcRef.current.setRemoteDescription(new RTCSessionDescription(msg.answer))
-
-        const buffered = iceBufferRef.current
-        iceBufferRef.current = []
-        for (const c of buffered) {
-          try {
-            await pcRef.current.addIceCandidate(new RTCIceCandidate(c))
-          } catch {}
-        }
+        await pc.setRemoteDescription(msg.answer)
+        await flushIceBuffer(pc)
       } catch (e) {
         console.error("[SIGNAL] answer error:", e)
       }
     }
 
     const onIce = async (msg: IceMsg) => {
-      if (msg.roomId !== roomId) return
-      if (msg.fromId === socket.id) return
-      if (!pcRef.current) return
-
       console.log("[SIGNAL IN] ice-candidate", "from=", msg.fromId, "me=", socket.id, "room=", roomId)
 
       const pc = pcRef.current
-      if (!pc.remoteDescription) {
+      if (!pc || !pc.remoteDescription) {
         iceBufferRef.current.push(msg.candidate)
         return
       }
       try {
-        await pc.addIceCandidate(new RTCIceCandidate(msg.candidate))
+        await pc.addIceCandidate(msg.candidate)
       } catch (e) {
-        console.error("[SIGNAL] ICE add error:", e)
+        if (!ignoreOfferRef.current) console.error("[SIGNAL] ICE add error:", e)
       }
     }
 
+    socket.on("join-room", onPeerJoined)
     socket.on("webrtc-offer", onOffer)
     socket.on("webrtc-answer", onAnswer)
     socket.on("webrtc-ice-candidate", onIce)
 
     return () => {
+      socket.off("join-room", onPeerJoined)
       socket.off("webrtc-offer", onOffer)
       socket.off("webrtc-answer", onAnswer)
       socket.off("webrtc-ice-candidate", onIce)
     }
   }, [socket, roomId, userId])
 
-  const canTransmit = userId ? micAllowed(currentSegment, userId) : false
-
   return (
     <div className="audio-container">
       <audio ref={localAudioRef} autoPlay muted />
       <audio ref={remoteAudioRef} autoPlay playsInline />
 
       <div className="audio-status">
-        <h3>{canTransmit ? "🎤 You can speak" : "🔇 Listening only"}</h3>
+        <h3>{desiredMicOn ? "🎤 You can speak" : "🔇 Listening only"}</h3>
       </div>
     </div>
   )
@@ -2,6 +2,23 @@ import TimerDisplay from './TimerDisplay'
 import VideoChat from './VideoChat'
 import AudioChat from './AudioChat'
 import TextChat from './TextChat'
+import CircleMedia from './CircleMedia'
+import CircleRoster from './CircleRoster'
+import type { RoomSignaling } from '../lib/webrtcSignaling'
+import { canRoleSkip, canRoleSpeak, getFormatSegment } from '../lib/formats'
+import type { ConversationFormat } from '../lib/formats'
+import type { ListenerReaction } from '../lib/reactions'
+import { TIME_EXTENSION_SEC } from '../contexts/SupabaseContext'
+import type {
+  CircleMember,
+  KeepInTouchConsent,
+  ModeRequest,
+  RoomMode,
+  TimeRequest,
+  TimeRequestKind,
+  TranscriptConsent,
+  UserRole,
+} from '../contexts/SupabaseContext'
 import './ChatScreen.css'
 
 interface Message {
@@ -18,62 +35,72 @@ interface ChatScreenProps {
   onNext: () => void
   onEnd: () => void
   onReport: () => void
+  onBlock: () => void
   onSkip: () => void
+  roundPrompt: string | null
+  onShufflePrompt: () => void
+  paused: boolean
+  // False when someone else paused; resuming then asks them first
+  canResumeAlone: boolean
+  timeRequest: TimeRequest | null
+  onRequestTime: (kind: TimeRequestKind) => void
+  onRespondTime: (accept: boolean) => void
+  onResume: () => void
+  modeRequest: ModeRequest | null
+  onRequestMode: (mode: RoomMode) => void
+  onRespondMode: (accept: boolean) => void
   onSendMessage: (text: string) => void
+  onRetryMessage: (clientId: string) => void
+  onTyping: () => void
+  onReact: (reaction: ListenerReaction) => void
+  peerTyping: boolean
+  reactionsRemaining: number
+  transcriptConsent: TranscriptConsent
+  onConsentTranscript: () => void
+  onDownloadTranscript: (format: 'markdown' | 'json') => void
+  keepInTouchConsent: KeepInTouchConsent
+  onKeepInTouch: () => void
   roomId: string
-  userId: 'user1' | 'user2' | null
+  userId: UserRole | null
   peerId: string | null
-  socket: unknown // Socket.IO removed, kept for compatibility
+  socket: RoomSignaling | null
   userName: string
   peerName: string
+  format: ConversationFormat
+  sharedTags: string[]
+  // Seats in turn order when the room is a circle, otherwise null
+  circleMembers: CircleMember[] | null
 }
 
-// This will be a function that generates segment descriptions based on names
-const getSegmentDescription = (segment: number, userName: string, peerName: string, isUser1: boolean) => {
-  switch (segment) {
-    case 0:
-      return isUser1 ? `${userName} speaks (${peerName} listens)` : `${peerName} speaks (${userName} listens)`
-    case 1:
-      return isUser1 ? `${peerName} speaks (${userName} listens)` : `${userName} speaks (${peerName} listens)`
-    case 2:
-      return isUser1 ? `${peerName} speaks (${userName} listens)` : `${userName} speaks (${peerName} listens)`
-    case 3:
-      return isUser1 ? `${userName} speaks (${peerName} listens)` : `${peerName} speaks (${userName} listens)`
-    default:
-      return ''
-  }
+const SWITCH_MODES: RoomMode[] = ['text', 'audio', 'video']
+
+// How each time request reads to the one waiting on it and to the one asked
+const TIME_REQUEST_TEXT: Record<TimeRequestKind, { agreeTo: string; asks: string }> = {
+  extend: { agreeTo: `+${TIME_EXTENSION_SEC}s`, asks: `asks for ${TIME_EXTENSION_SEC} more seconds` },
+  pause: { agreeTo: 'a pause', asks: 'asks for a pause' },
+  resume: { agreeTo: 'resume', asks: 'asks to resume' },
 }
 
-const segments = [
-  {
-    label: 'Segment 1 of 4',
-    canUser1Speak: true,
-    canUser2Speak: false,
-    canUser1Skip: true,  // User1 can skip segment 1
-    canUser2Skip: false  // User2 cannot skip segment 1
-  },
-  {
-    label: 'Segment 2 of 4',
-    canUser1Speak: false,
-    canUser2Speak: true,
-    canUser1Skip: true,  // User1 can skip segment 2
-    canUser2Skip: false  // User2 cannot skip segment 2
-  },
-  {
-    label: 'Segment 3 of 4',
-    canUser1Speak: false,
-    canUser2Speak: true,
-    canUser1Skip: false, // User1 cannot skip segment 3
-    canUser2Skip: true   // User2 can skip segment 3
-  },
-  {
-    label: 'Segment 4 of 4',
-    canUser1Speak: true,
-    canUser2Speak: false,
-    canUser1Skip: false, // User1 cannot skip segment 4
-    canUser2Skip: true   // User2 can skip segment 4
+// Describe the segment from this user's point of view using the format's speaker
+const getSegmentDescription = (
+  format: ConversationFormat,
+  segment: number,
+  userName: string,
+  peerName: string,
+  userId: UserRole | null,
+  circleMembers: CircleMember[] | null
+) => {
+  const segmentInfo = getFormatSegment(format, segment)
+  if (!segmentInfo) return ''
+  if (circleMembers) {
+    if (segmentInfo.speaker === userId) return `${userName} speaks (everyone else listens)`
+    const speaker = circleMembers.find((m) => m.role === segmentInfo.speaker)
+    return `${speaker?.displayName || 'Someone'} speaks (everyone else listens)`
   }
-]
+  return segmentInfo.speaker === userId
+    ? `${userName} speaks (${peerName} listens)`
+    : `${peerName} speaks (${userName} listens)`
+}
 
 function ChatScreen({ 
   chatMode, 
@@ -84,43 +111,60 @@ function ChatScreen({
   onNext, 
   onEnd, 
   onReport, 
+  onBlock,
   onSkip,
+  roundPrompt,
+  onShufflePrompt,
+  paused,
+  canResumeAlone,
+  timeRequest,
+  onRequestTime,
+  onRespondTime,
+  onResume,
+  modeRequest,
+  onRequestMode,
+  onRespondMode,
   onSendMessage,
+  onRetryMessage,
+  onTyping,
+  onReact,
+  peerTyping,
+  reactionsRemaining,
+  transcriptConsent,
+  onConsentTranscript,
+  onDownloadTranscript,
+  keepInTouchConsent,
+  onKeepInTouch,
   roomId,
   userId,
   peerId,
   socket,
   userName,
-  peerName
+  peerName,
+  format,
+  sharedTags,
+  circleMembers
 }: ChatScreenProps) {
-  const segmentInfo = segments[currentSegment] || segments[0]
+  const segmentCount = format.segments.length
+  const segmentInfo = getFormatSegment(format, currentSegment)
+  // Circles keep their mode and schedule; the requests below are for pairs
+  const circle = circleMembers !== null
   
   // Generate segment label with round (only show round if > 1)
+  const baseLabel = circle
+    ? `Turn ${currentSegment + 1} of ${segmentCount}`
+    : `Segment ${currentSegment + 1} of ${segmentCount}`
   const segmentLabel = round > 1 
-    ? `${segmentInfo.label} - Round ${round}`
-    : segmentInfo.label
-  
-  // Ensure userId is set before calculating canSpeak
-  const isUser1 = userId === 'user1'
+    ? `${baseLabel} - Round ${round}`
+    : baseLabel
   
   // Generate description based on names
-  const segmentDescription = getSegmentDescription(currentSegment, userName, peerName, isUser1)
+  const segmentDescription = getSegmentDescription(format, currentSegment, userName, peerName, userId, circleMembers)
   
-  // Calculate canSpeak based on userId and segment
-  // For segment 0 (1 of 4): user1 can speak, user2 cannot
-  // For segment 1 (2 of 4): user2 can speak, user1 cannot
-  // For segment 2 (3 of 4): user2 can speak, user1 cannot  
-  // For segment 3 (4 of 4): user1 can speak, user2 cannot
-  const canISpeak = userId 
-    ? (isUser1 ? segmentInfo.canUser1Speak : segmentInfo.canUser2Speak)
-    : false // Don't allow speaking if userId is not set yet
-    
-  // Calculate canSkip based on userId and segment
-  // User1 can skip segments 1 and 2 (indices 0 and 1)
-  // User2 can skip segments 3 and 4 (indices 2 and 3)
-  const canISkip = userId 
-    ? (isUser1 ? segmentInfo.canUser1Skip : segmentInfo.canUser2Skip)
-    : false
+  // Speaking and skip rights come from the format's segment definition.
+  // Neither is allowed until userId is set.
+  const canISpeak = canRoleSpeak(format, currentSegment, userId)
+  const canISkip = canRoleSkip(format, currentSegment, userId)
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60)
@@ -138,19 +182,168 @@ function ChatScreen({
           <button className="control-btn btn-next" onClick={onNext}>Next</button>
           <button className="control-btn btn-end" onClick={onEnd}>End</button>
           <button className="control-btn btn-report" onClick={onReport}>Report</button>
+          {!circle && <button className="control-btn btn-block" onClick={onBlock}>Block</button>}
+          {chatMode === 'text' && !circle && (
+            <button
+              className="control-btn btn-export"
+              onClick={onConsentTranscript}
+              disabled={transcriptConsent.mine}
+              title="Save this conversation once you both agree"
+            >
+              Export
+            </button>
+          )}
+          {!circle && (
+            <button
+              className="control-btn btn-keep"
+              onClick={onKeepInTouch}
+              disabled={keepInTouchConsent.mine}
+              title="Stay connected if they want to as well"
+            >
+              Keep in touch
+            </button>
+          )}
         </div>
       </div>
 
       <div className="chat-content">
+        {sharedTags.length > 0 && (
+          <div className="shared-tags-banner">
+            You both like: {sharedTags.join(', ')}
+          </div>
+        )}
+
+        {format.talker_role && (
+          <div className="talk-role-banner">
+            {format.talker_role === userId
+              ? `${peerName} is here to listen. Most of the time is yours.`
+              : `${peerName} came to talk. Most of the time is theirs; your turns are for reflecting back.`}
+          </div>
+        )}
+
+        {chatMode === 'text' && (transcriptConsent.mine || transcriptConsent.peer) && (
+          <div className="transcript-banner">
+            {transcriptConsent.mine && transcriptConsent.peer ? (
+              <>
+                Transcript ready:
+                <button className="transcript-btn" onClick={() => onDownloadTranscript('markdown')}>Markdown</button>
+                <button className="transcript-btn" onClick={() => onDownloadTranscript('json')}>JSON</button>
+              </>
+            ) : transcriptConsent.mine ? (
+              <>Waiting for {peerName} to agree to export the transcript...</>
+            ) : (
+              <>
+                {peerName} would like to export a transcript of this conversation.
+                <button className="transcript-btn" onClick={onConsentTranscript}>Agree</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {(keepInTouchConsent.mine || keepInTouchConsent.peer) && (
+          <div className="keep-in-touch-banner">
+            {keepInTouchConsent.mine && keepInTouchConsent.peer ? (
+              <>You're keeping in touch with {peerName}. Invite them any time from the home screen.</>
+            ) : keepInTouchConsent.mine ? (
+              <>Waiting for {peerName} to agree to keep in touch...</>
+            ) : (
+              <>
+                {peerName} would like to keep in touch.
+                <button className="keep-in-touch-btn" onClick={onKeepInTouch}>Agree</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {circleMembers && (
+          <CircleRoster
+            members={circleMembers}
+            userRole={userId}
+            speaker={segmentInfo?.speaker ?? null}
+            nextSpeaker={getFormatSegment(format, (currentSegment + 1) % segmentCount)?.speaker ?? null}
+          />
+        )}
+
+        {!circle && (
+          <div className="mode-switch">
+            <span>Switch to:</span>
+            {SWITCH_MODES.filter((m) => m !== chatMode).map((mode) => (
+              <button
+                key={mode}
+                className="mode-switch-btn"
+                onClick={() => onRequestMode(mode)}
+                disabled={modeRequest !== null}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {modeRequest && !circle && (
+          <div className="mode-request-banner">
+            {modeRequest.mine ? (
+              <>Waiting for {peerName} to agree to switch to {modeRequest.mode}...</>
+            ) : (
+              <>
+                {peerName} would like to switch to {modeRequest.mode} chat.
+                <button className="mode-request-btn" onClick={() => onRespondMode(true)}>Accept</button>
+                <button className="mode-request-btn decline" onClick={() => onRespondMode(false)}>Decline</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {timeRequest && !circle && (
+          <div className="time-request-banner">
+            {timeRequest.mine ? (
+              <>Waiting for {peerName} to agree to {TIME_REQUEST_TEXT[timeRequest.kind].agreeTo}...</>
+            ) : (
+              <>
+                {peerName} {TIME_REQUEST_TEXT[timeRequest.kind].asks}.
+                <button className="time-request-btn" onClick={() => onRespondTime(true)}>Accept</button>
+                <button className="time-request-btn decline" onClick={() => onRespondTime(false)}>Decline</button>
+              </>
+            )}
+          </div>
+        )}
+
         <TimerDisplay
           label={segmentLabel}
           description={segmentDescription}
           timeDisplay={formatTime(timeRemaining)}
+          prompt={segmentInfo?.prompt ?? null}
+          roundPrompt={roundPrompt}
+          canShufflePrompt={canISpeak}
+          onShufflePrompt={onShufflePrompt}
+          paused={paused}
+          timeRequestPending={timeRequest !== null}
+          onRequestExtend={circle ? undefined : () => onRequestTime('extend')}
+          onRequestPause={circle ? undefined : () => onRequestTime('pause')}
+          onResume={circle ? undefined : canResumeAlone ? onResume : () => onRequestTime('resume')}
+          resumeNeedsAgreement={!canResumeAlone}
           canSkip={canISkip}
           onSkip={onSkip}
         />
 
-        {chatMode === 'video' && (
+        {circleMembers && (chatMode === 'video' || chatMode === 'audio') && (
+          socket ? (
+            <CircleMedia
+              mode={chatMode}
+              canSpeak={canISpeak}
+              roomId={roomId}
+              socket={socket}
+              members={circleMembers}
+            />
+          ) : (
+            <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-dim)' }}>
+              <p>Setting up {chatMode}</p>
+              <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>Connecting to your circle...</p>
+            </div>
+          )
+        )}
+
+        {chatMode === 'video' && !circle && (
           socket ? (
             <VideoChat 
               canSpeak={canISpeak} 
@@ -162,15 +355,16 @@ function ChatScreen({
             />
           ) : (
             <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-dim)' }}>
-              <p>Video chat requires WebRTC signaling</p>
-              <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>Coming soon with Supabase Realtime</p>
+              <p>Setting up video</p>
+              <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>Connecting to your peer...</p>
             </div>
           )
         )}
 
-        {chatMode === 'audio' && userId && (
+        {chatMode === 'audio' && !circle && userId && (
           socket ? (
             <AudioChat 
+              canSpeak={canISpeak}
               roomId={roomId}
               userId={userId}
               socket={socket}
@@ -178,8 +372,8 @@ function ChatScreen({
             />
           ) : (
             <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-dim)' }}>
-              <p>Audio chat requires WebRTC signaling</p>
-              <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>Coming soon with Supabase Realtime</p>
+              <p>Setting up audio</p>
+              <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>Connecting to your peer...</p>
             </div>
           )
         )}
@@ -189,6 +383,11 @@ function ChatScreen({
             messages={messages}
             canSpeak={canISpeak}
             onSendMessage={onSendMessage}
+            onRetryMessage={onRetryMessage}
+            onTyping={onTyping}
+            onReact={onReact}
+            peerTyping={peerTyping}
+            reactionsRemaining={reactionsRemaining}
             userId={userId}
             userName={userName}
             peerName={peerName}
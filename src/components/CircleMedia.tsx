@@ -0,0 +1,267 @@
+import { useEffect, useRef, useState } from "react"
+import type { RoomSignaling, SignalingMessage } from "../lib/webrtcSignaling"
+import type { CircleMember } from "../contexts/SupabaseContext"
+import "./CircleMedia.css"
+
+interface CircleMediaProps {
+  mode: "audio" | "video"
+  canSpeak: boolean
+  roomId: string
+  socket: RoomSignaling
+  members: CircleMember[]
+}
+
+type OfferMsg = SignalingMessage & { offer: RTCSessionDescriptionInit }
+type AnswerMsg = SignalingMessage & { answer: RTCSessionDescriptionInit }
+type IceMsg = SignalingMessage & { candidate: RTCIceCandidateInit }
+
+interface PeerLink {
+  pc: RTCPeerConnection
+  iceBuffer: RTCIceCandidateInit[]
+}
+
+// A full mesh: one peer connection per other member, with every message
+// addressed to a single peer through toId. Whoever has the smaller id offers,
+// so two members never offer to each other at once.
+export default function CircleMedia({ mode, canSpeak, roomId, socket, members }: CircleMediaProps) {
+  const localVideoRef = useRef<HTMLVideoElement | null>(null)
+  const localStreamRef = useRef<MediaStream | null>(null)
+  const linksRef = useRef<Map<string, PeerLink>>(new Map())
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({})
+
+  const myId = socket.id
+
+  useEffect(() => {
+    let cancelled = false
+    const links = linksRef.current
+
+    const dropPeer = (peerId: string) => {
+      const link = links.get(peerId)
+      if (!link) return
+      try {
+        link.pc.close()
+      } catch {}
+      links.delete(peerId)
+      setRemoteStreams((prev) => {
+        if (!(peerId in prev)) return prev
+        const next = { ...prev }
+        delete next[peerId]
+        return next
+      })
+    }
+
+    const createLink = (peerId: string): PeerLink => {
+      dropPeer(peerId)
+
+      const pc = new RTCPeerConnection({
+        iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
+      })
+      const link: PeerLink = { pc, iceBuffer: [] }
+      links.set(peerId, link)
+
+      localStreamRef.current?.getTracks().forEach((track) => pc.addTrack(track, localStreamRef.current!))
+
+      pc.onicecandidate = (e) => {
+        if (cancelled || !e.candidate) return
+        socket.emit("webrtc-ice-candidate", { toId: peerId, candidate: e.candidate.toJSON() })
+      }
+
+      pc.ontrack = (e) => {
+        if (cancelled) return
+        const stream = e.streams?.[0]
+        if (!stream) return
+        console.log("[Circle] ontrack", e.track.kind, "from=", peerId)
+        setRemoteStreams((prev) => (prev[peerId] === stream ? prev : { ...prev, [peerId]: stream }))
+      }
+
+      pc.onconnectionstatechange = () => {
+        console.log("[Circle] connection", peerId, pc.connectionState)
+        if (pc.connectionState === "failed" && !cancelled) pc.restartIce()
+      }
+
+      return link
+    }
+
+    const flushIceBuffer = async (link: PeerLink) => {
+      const buffered = link.iceBuffer
+      link.iceBuffer = []
+      for (const c of buffered) {
+        try {
+          await link.pc.addIceCandidate(c)
+        } catch {}
+      }
+    }
+
+    const connect = async (peerId: string) => {
+      const link = createLink(peerId)
+      if (myId > peerId) return // the other side offers
+
+      try {
+        await link.pc.setLocalDescription(await link.pc.createOffer())
+        if (cancelled || !link.pc.localDescription) return
+        console.log("[Circle] offer to", peerId)
+        socket.emit("webrtc-offer", { toId: peerId, offer: link.pc.localDescription.toJSON() })
+      } catch (e) {
+        console.error("[Circle] offer error:", e)
+      }
+    }
+
+    // An untargeted join comes from a member who just (re)opened the room, so
+    // any old connection to them is replaced. We answer with a join addressed
+    // to them so they know we are here too.
+    const onJoin = (msg: SignalingMessage) => {
+      if (!msg.toId) socket.emit("join-room", { toId: msg.fromId })
+      const existing = links.get(msg.fromId)
+      if (msg.toId && existing && existing.pc.connectionState !== "failed" && existing.pc.connectionState !== "closed") {
+        return
+      }
+      void connect(msg.fromId)
+    }
+
+    const onOffer = async (msg: OfferMsg) => {
+      const existing = links.get(msg.fromId)
+      const link = existing && existing.pc.signalingState === "stable" ? existing : createLink(msg.fromId)
+
+      try {
+        await link.pc.setRemoteDescription(msg.offer)
+        await flushIceBuffer(link)
+        await link.pc.setLocalDescription(await link.pc.createAnswer())
+        if (cancelled || !link.pc.localDescription) return
+        console.log("[Circle] answer to", msg.fromId)
+        socket.emit("webrtc-answer", { toId: msg.fromId, answer: link.pc.localDescription.toJSON() })
+      } catch (e) {
+        console.error("[Circle] offer handling error:", e)
+      }
+    }
+
+    const onAnswer = async (msg: AnswerMsg) => {
+      const link = links.get(msg.fromId)
+      if (!link || link.pc.signalingState !== "have-local-offer") return
+      try {
+        await link.pc.setRemoteDescription(msg.answer)
+        await flushIceBuffer(link)
+      } catch (e) {
+        console.error("[Circle] answer error:", e)
+      }
+    }
+
+    const onIce = async (msg: IceMsg) => {
+      const link = links.get(msg.fromId)
+      if (!link) return
+      if (!link.pc.remoteDescription) {
+        link.iceBuffer.push(msg.candidate)
+        return
+      }
+      try {
+        await link.pc.addIceCandidate(msg.candidate)
+      } catch (e) {
+        console.error("[Circle] ICE add error:", e)
+      }
+    }
+
+    ;(async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+          video: mode === "video",
+        })
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop())
+          return
+        }
+
+        localStreamRef.current = stream
+        stream.getAudioTracks().forEach((t) => (t.enabled = false))
+        if (localVideoRef.current) localVideoRef.current.srcObject = stream
+
+        // Listen only once there are tracks to send, then announce ourselves
+        socket.on("join-room", onJoin)
+        socket.on("webrtc-offer", onOffer)
+        socket.on("webrtc-answer", onAnswer)
+        socket.on("webrtc-ice-candidate", onIce)
+        socket.emit("join-room", {})
+      } catch (err: any) {
+        if (cancelled) return
+        console.error("[Circle] getUserMedia error:", err)
+        alert(`Failed to access ${mode === "video" ? "camera and microphone" : "microphone"}: ${err.message || err.name}`)
+      }
+    })()
+
+    return () => {
+      cancelled = true
+      socket.off("join-room", onJoin)
+      socket.off("webrtc-offer", onOffer)
+      socket.off("webrtc-answer", onAnswer)
+      socket.off("webrtc-ice-candidate", onIce)
+      Array.from(links.keys()).forEach(dropPeer)
+      try {
+        localStreamRef.current?.getTracks().forEach((t) => t.stop())
+      } catch {}
+      localStreamRef.current = null
+    }
+  }, [socket, roomId, mode, myId])
+
+  // Mic follows the turn: only the current speaker is heard
+  useEffect(() => {
+    localStreamRef.current?.getAudioTracks().forEach((t) => (t.enabled = canSpeak))
+  }, [canSpeak, remoteStreams])
+
+  // Close connections to members who left the circle
+  useEffect(() => {
+    const present = new Set(members.map((m) => m.userId))
+    linksRef.current.forEach((link, peerId) => {
+      if (present.has(peerId)) return
+      try {
+        link.pc.close()
+      } catch {}
+      linksRef.current.delete(peerId)
+      setRemoteStreams((prev) => {
+        const next = { ...prev }
+        delete next[peerId]
+        return next
+      })
+    })
+  }, [members])
+
+  const others = members.filter((m) => m.userId !== myId)
+
+  return (
+    <div className={`circle-media ${mode}`}>
+      {mode === "video" && (
+        <div className="circle-media-tile">
+          <video ref={localVideoRef} autoPlay playsInline muted />
+          <span className="circle-media-name">You</span>
+        </div>
+      )}
+      {others.map((member) => {
+        const stream = remoteStreams[member.userId]
+        return (
+          <div key={member.userId} className="circle-media-tile">
+            {stream ? (
+              mode === "video" ? (
+                <video
+                  autoPlay
+                  playsInline
+                  ref={(el) => {
+                    if (el && el.srcObject !== stream) el.srcObject = stream
+                  }}
+                />
+              ) : (
+                <audio
+                  autoPlay
+                  ref={(el) => {
+                    if (el && el.srcObject !== stream) el.srcObject = stream
+                  }}
+                />
+              )
+            ) : (
+              <span className="circle-media-connecting">Connecting...</span>
+            )}
+            <span className="circle-media-name">{member.displayName || "Someone"}</span>
+          </div>
+        )
+      })}
+      <div className="circle-media-status">{canSpeak ? "🎤 You can speak" : "🔇 Listening only"}</div>
+    </div>
+  )
+}
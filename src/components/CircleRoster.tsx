@@ -0,0 +1,34 @@
+import type { CircleMember, UserRole } from '../contexts/SupabaseContext'
+import './CircleRoster.css'
+
+interface CircleRosterProps {
+  members: CircleMember[]
+  userRole: UserRole | null
+  speaker: UserRole | null
+  nextSpeaker: UserRole | null
+}
+
+// Seats in turn order, with who is speaking now and who is up next
+function CircleRoster({ members, userRole, speaker, nextSpeaker }: CircleRosterProps) {
+  return (
+    <ol className="circle-roster">
+      {members.map((member) => (
+        <li
+          key={member.role}
+          className={`circle-roster-seat${member.role === speaker ? ' speaking' : ''}`}
+        >
+          <span className="circle-roster-name">
+            {member.role === userRole ? 'You' : member.displayName || 'Someone'}
+          </span>
+          {member.role === speaker ? (
+            <span className="circle-roster-badge">Speaking</span>
+          ) : member.role === nextSpeaker ? (
+            <span className="circle-roster-badge next">Next</span>
+          ) : null}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export default CircleRoster
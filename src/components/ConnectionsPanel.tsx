@@ -0,0 +1,78 @@
+import type { Connection, RoomMode } from '../contexts/SupabaseContext'
+import './ConnectionsPanel.css'
+
+const INVITE_MODES: { mode: RoomMode; icon: string; label: string }[] = [
+  { mode: 'text', icon: '💬', label: 'Text' },
+  { mode: 'audio', icon: '🎤', label: 'Audio' },
+  { mode: 'video', icon: '🎥', label: 'Video' },
+]
+
+interface ConnectionsPanelProps {
+  connections: Connection[]
+  connected: boolean
+  onInvite: (connection: Connection, mode: RoomMode) => void
+  onAccept: (connection: Connection) => void
+  onDecline: (connection: Connection) => void
+  onRemove: (connection: Connection) => void
+}
+
+function ConnectionsPanel({ connections, connected, onInvite, onAccept, onDecline, onRemove }: ConnectionsPanelProps) {
+  if (connections.length === 0) return null
+
+  return (
+    <div className="connections-panel">
+      <div className="connections-header">People you kept in touch with</div>
+      <ul className="connections-list">
+        {connections.map((connection) => (
+          <li key={connection.id} className="connection-item">
+            <span className="connection-name">{connection.peerName || 'Stranger'}</span>
+            {connection.incomingInviteId ? (
+              <div className="connection-actions">
+                <span className="connection-invite-text">
+                  Invited you to {connection.incomingInviteMode ?? 'a'} chat
+                </span>
+                <button
+                  className="connection-btn accept"
+                  onClick={() => onAccept(connection)}
+                  disabled={!connected}
+                  type="button"
+                >
+                  Join
+                </button>
+                <button className="connection-btn" onClick={() => onDecline(connection)} type="button">
+                  Not now
+                </button>
+              </div>
+            ) : (
+              <div className="connection-actions">
+                {INVITE_MODES.map(({ mode, icon, label }) => (
+                  <button
+                    key={mode}
+                    className="connection-btn"
+                    onClick={() => onInvite(connection, mode)}
+                    disabled={!connected}
+                    title={`Invite to a ${label.toLowerCase()} chat`}
+                    type="button"
+                  >
+                    {icon} {label}
+                  </button>
+                ))}
+                <button
+                  className="connection-btn remove"
+                  onClick={() => onRemove(connection)}
+                  title="Remove connection"
+                  aria-label="Remove connection"
+                  type="button"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default ConnectionsPanel
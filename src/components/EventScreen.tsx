@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react'
+import { getEventPhase } from '../lib/events'
+import type { EventMeeting, SpeedEvent } from '../contexts/SupabaseContext'
+import './EventScreen.css'
+
+interface EventScreenProps {
+  // undefined while loading, null for an unknown code
+  event: SpeedEvent | null | undefined
+  meetings: EventMeeting[]
+  serverTimeOffset: number
+  connected: boolean
+  onJoin: (name: string) => void
+  onLeave: () => void
+  onBack: () => void
+}
+
+const STORAGE_KEY = 'onetwoone_name'
+
+const MODE_LABELS: Record<SpeedEvent['mode'], string> = {
+  video: '🎥 Video',
+  audio: '🎤 Audio',
+  text: '💬 Text',
+}
+
+const formatCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(total / 3600)
+  const mins = Math.floor((total % 3600) / 60)
+  const secs = total % 60
+  const clock = `${mins}:${secs.toString().padStart(2, '0')}`
+  return hours > 0 ? `${hours}:${clock.padStart(5, '0')}` : clock
+}
+
+function EventScreen({ event, meetings, serverTimeOffset, connected, onJoin, onLeave, onBack }: EventScreenProps) {
+  const [name, setName] = useState<string>(() => {
+    try {
+      return localStorage.getItem(STORAGE_KEY) || ''
+    } catch {
+      return ''
+    }
+  })
+  const [copied, setCopied] = useState(false)
+  const [now, setNow] = useState(() => Date.now() + serverTimeOffset)
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now() + serverTimeOffset), 1000)
+    return () => clearInterval(interval)
+  }, [serverTimeOffset])
+
+  const handleJoin = () => {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      alert('Please enter your name to continue')
+      return
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, trimmedName)
+    } catch (error) {
+      console.warn('Failed to save name to localStorage:', error)
+    }
+    onJoin(trimmedName)
+  }
+
+  const eventLink = `${window.location.origin}${window.location.pathname}`
+
+  const copyEventLink = async () => {
+    try {
+      await navigator.clipboard.writeText(eventLink)
+      setCopied(true)
+    } catch (error) {
+      console.warn('Failed to copy event link:', error)
+    }
+  }
+
+  if (event === undefined) {
+    return (
+      <div className="event-screen">
+        <h1 className="event-logo">OneTwoOne</h1>
+        <p className="event-text">Looking up this event...</p>
+      </div>
+    )
+  }
+
+  if (!event) {
+    return (
+      <div className="event-screen">
+        <h1 className="event-logo">OneTwoOne</h1>
+        <p className="event-text">There is no event at this link.</p>
+        <button className="event-back-btn" onClick={onBack} type="button">
+          Go to the home page
+        </button>
+      </div>
+    )
+  }
+
+  const phase = event.status === 'ended' ? ({ kind: 'ended' } as const) : getEventPhase(event, now)
+
+  const summary = (
+    <div className="event-summary">
+      <div className="event-summary-header">Who you met</div>
+      {meetings.length === 0 ? (
+        <p className="event-summary-empty">Nobody yet</p>
+      ) : (
+        <ol className="event-summary-list">
+          {meetings.map((meeting) => (
+            <li key={meeting.round} className="event-summary-item">
+              <span className="event-summary-round">Round {meeting.round}</span>
+              <span className="event-summary-name">{meeting.partnerName || 'Stranger'}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="event-screen">
+      <h1 className="event-logo">OneTwoOne</h1>
+      <h2 className="event-title">{event.title}</h2>
+      <div className="event-details">
+        <span>{MODE_LABELS[event.mode]}</span>
+        <span>
+          {event.roundCount} rounds of {Math.round(event.roundSec / 60)} min
+        </span>
+        {event.hostName && <span>Hosted by {event.hostName}</span>}
+      </div>
+
+      {phase.kind === 'ended' ? (
+        <>
+          <p className="event-text">This event is over. Thanks for coming!</p>
+          {event.joined || meetings.length > 0 ? summary : null}
+          <button className="event-back-btn" onClick={onBack} type="button">
+            Go to the home page
+          </button>
+        </>
+      ) : !event.joined ? (
+        <>
+          <p className="event-text">
+            {phase.kind === 'scheduled'
+              ? `Starts in ${formatCountdown(phase.nextChangeAt - now)}`
+              : 'This event has started. You will be paired from the next round.'}
+          </p>
+          <input
+            type="text"
+            className="event-name-input"
+            placeholder="Your name"
+            aria-label="Your name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim() && connected) handleJoin()
+            }}
+            maxLength={20}
+          />
+          <button className="event-join-btn" onClick={handleJoin} disabled={!connected} type="button">
+            {connected ? 'Join the event' : 'Connecting...'}
+          </button>
+          <button className="event-back-btn" onClick={onBack} type="button">
+            Not now
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="event-countdown">
+            {phase.kind === 'scheduled' ? (
+              <>
+                <span className="event-countdown-label">First round starts in</span>
+                <span className="event-countdown-time">{formatCountdown(phase.nextChangeAt - now)}</span>
+              </>
+            ) : phase.kind === 'break' ? (
+              <>
+                <span className="event-countdown-label">
+                  Round {phase.nextRound} of {event.roundCount} starts in
+                </span>
+                <span className="event-countdown-time">{formatCountdown(phase.nextChangeAt - now)}</span>
+              </>
+            ) : event.myRoomId ? (
+              <span className="event-countdown-label">Joining your conversation...</span>
+            ) : (
+              <>
+                <span className="event-countdown-label">
+                  You're sitting out round {phase.round}. Back in
+                </span>
+                <span className="event-countdown-time">{formatCountdown(phase.nextChangeAt - now)}</span>
+              </>
+            )}
+          </div>
+          <p className="event-participants">
+            {event.participantCount} {event.participantCount === 1 ? 'person' : 'people'} in the lobby
+          </p>
+          <div className="event-invite">
+            <input className="event-invite-link" value={eventLink} readOnly onFocus={(e) => e.target.select()} />
+            <button className="event-invite-copy" onClick={copyEventLink} type="button">
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          {meetings.length > 0 && summary}
+          <button className="event-back-btn" onClick={onLeave} type="button">
+            Leave the event
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default EventScreen
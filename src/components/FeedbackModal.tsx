@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import type { RoomFeedback, TranscriptConsent } from '../contexts/SupabaseContext'
+import './FeedbackModal.css'
+
+const RATINGS = [1, 2, 3, 4, 5]
+
+interface FeedbackModalProps {
+  peerName: string | null
+  // False once we already asked to keep in touch during the chat
+  offerKeepInTouch: boolean
+  // feedback is null when only keep in touch was chosen
+  onSubmit: (feedback: RoomFeedback | null, keepInTouch: boolean) => void
+  onSkip: () => void
+  // Export state for a text chat, null when there is no transcript to offer
+  transcriptConsent: TranscriptConsent | null
+  onConsentTranscript: () => void
+  onDownloadTranscript: (format: 'markdown' | 'json') => void
+}
+
+function FeedbackModal({
+  peerName,
+  offerKeepInTouch,
+  onSubmit,
+  onSkip,
+  transcriptConsent,
+  onConsentTranscript,
+  onDownloadTranscript,
+}: FeedbackModalProps) {
+  const [rating, setRating] = useState<number | null>(null)
+  const [feltHeard, setFeltHeard] = useState(false)
+  const [stayedOnTurn, setStayedOnTurn] = useState(false)
+  const [comment, setComment] = useState('')
+  const [keepInTouch, setKeepInTouch] = useState(false)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (rating === null && !keepInTouch) return
+    onSubmit(rating === null ? null : { rating, feltHeard, stayedOnTurn, comment: comment.trim() }, keepInTouch)
+  }
+
+  return (
+    <div className="feedback-modal-overlay">
+      <div className="feedback-modal">
+        <h3 className="feedback-modal-title">How was your conversation{peerName ? ` with ${peerName}` : ''}?</h3>
+        <p className="feedback-modal-message">Optional. Your answers are never shown to the other person.</p>
+        <form className="feedback-form" onSubmit={handleSubmit}>
+          <div className="feedback-rating" role="radiogroup" aria-label="Rating">
+            {RATINGS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={rating === value}
+                aria-label={`${value} out of 5`}
+                className={`feedback-star ${rating !== null && value <= rating ? 'active' : ''}`}
+                onClick={() => setRating(value)}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+          <label className="feedback-toggle">
+            <input type="checkbox" checked={feltHeard} onChange={(e) => setFeltHeard(e.target.checked)} />
+            <span>I felt heard</span>
+          </label>
+          <label className="feedback-toggle">
+            <input type="checkbox" checked={stayedOnTurn} onChange={(e) => setStayedOnTurn(e.target.checked)} />
+            <span>They stayed on turn</span>
+          </label>
+          <textarea
+            className="feedback-textarea"
+            placeholder="Anything else? (optional)"
+            value={comment}
+            maxLength={1000}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          {offerKeepInTouch && (
+            <label className="feedback-toggle">
+              <input type="checkbox" checked={keepInTouch} onChange={(e) => setKeepInTouch(e.target.checked)} />
+              <span>Keep in touch with {peerName || 'them'}</span>
+            </label>
+          )}
+          {transcriptConsent && (
+            <div className="feedback-transcript">
+              {transcriptConsent.mine && transcriptConsent.peer ? (
+                <>
+                  Transcript ready:
+                  <button type="button" className="feedback-transcript-btn" onClick={() => onDownloadTranscript('markdown')}>
+                    Markdown
+                  </button>
+                  <button type="button" className="feedback-transcript-btn" onClick={() => onDownloadTranscript('json')}>
+                    JSON
+                  </button>
+                </>
+              ) : transcriptConsent.mine ? (
+                <>The transcript unlocks once {peerName || 'the other person'} agrees to export it too.</>
+              ) : (
+                <>
+                  {transcriptConsent.peer
+                    ? `${peerName || 'The other person'} would like to export a transcript.`
+                    : 'Keep a transcript of this conversation?'}
+                  <button type="button" className="feedback-transcript-btn" onClick={onConsentTranscript}>
+                    {transcriptConsent.peer ? 'Agree' : 'Ask to export'}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          <div className="feedback-modal-buttons">
+            <button type="button" className="feedback-btn feedback-btn-skip" onClick={onSkip}>
+              Skip
+            </button>
+            <button type="submit" className="feedback-btn feedback-btn-submit" disabled={rating === null && !keepInTouch}>
+              Send Feedback
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default FeedbackModal
@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import type { NewSpeedEvent, RoomMode } from '../contexts/SupabaseContext'
+import './HostEventModal.css'
+
+interface HostEventModalProps {
+  onCreate: (event: NewSpeedEvent) => void
+  onCancel: () => void
+}
+
+const ROUND_MINUTES = [3, 5, 8, 10, 15]
+const BREAK_SECONDS = [30, 60, 120]
+
+function HostEventModal({ onCreate, onCancel }: HostEventModalProps) {
+  const [title, setTitle] = useState('')
+  const [mode, setMode] = useState<RoomMode>('video')
+  const [startsInMin, setStartsInMin] = useState(10)
+  const [roundMin, setRoundMin] = useState(5)
+  const [breakSec, setBreakSec] = useState(60)
+  const [roundCount, setRoundCount] = useState(6)
+
+  const totalMin = Math.round((roundCount * roundMin * 60 + (roundCount - 1) * breakSec) / 60)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!title.trim()) return
+    onCreate({
+      title: title.trim(),
+      mode,
+      startsAt: new Date(Date.now() + startsInMin * 60 * 1000),
+      roundSec: roundMin * 60,
+      breakSec,
+      roundCount,
+    })
+  }
+
+  return (
+    <div className="host-event-overlay" onClick={onCancel}>
+      <form className="host-event-modal" onClick={(e) => e.stopPropagation()} onSubmit={handleSubmit}>
+        <h3 className="host-event-title">Host a speed-chat event</h3>
+
+        <label className="host-event-field">
+          <span>Title</span>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Friday meetup"
+            maxLength={60}
+            autoFocus
+          />
+        </label>
+
+        <label className="host-event-field">
+          <span>Mode</span>
+          <select value={mode} onChange={(e) => setMode(e.target.value as RoomMode)}>
+            <option value="video">Video</option>
+            <option value="audio">Audio</option>
+            <option value="text">Text</option>
+          </select>
+        </label>
+
+        <label className="host-event-field">
+          <span>Starts in (minutes)</span>
+          <input
+            type="number"
+            min={0}
+            max={1440}
+            value={startsInMin}
+            onChange={(e) => setStartsInMin(Math.max(0, Number(e.target.value) || 0))}
+          />
+        </label>
+
+        <div className="host-event-row">
+          <label className="host-event-field">
+            <span>Round length</span>
+            <select value={roundMin} onChange={(e) => setRoundMin(Number(e.target.value))}>
+              {ROUND_MINUTES.map((min) => (
+                <option key={min} value={min}>
+                  {min} min
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="host-event-field">
+            <span>Break</span>
+            <select value={breakSec} onChange={(e) => setBreakSec(Number(e.target.value))}>
+              {BREAK_SECONDS.map((sec) => (
+                <option key={sec} value={sec}>
+                  {sec < 60 ? `${sec} sec` : `${sec / 60} min`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="host-event-field">
+            <span>Rounds</span>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={roundCount}
+              onChange={(e) => setRoundCount(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+            />
+          </label>
+        </div>
+
+        <p className="host-event-note">About {totalMin} minutes in total. Everyone meets someone new each round.</p>
+
+        <div className="host-event-buttons">
+          <button type="button" className="host-event-btn cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" className="host-event-btn create" disabled={!title.trim()}>
+            Create event
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default HostEventModal
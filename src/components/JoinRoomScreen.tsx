@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import type { ConversationFormat } from '../lib/formats'
+import type { InviteRoom } from '../contexts/SupabaseContext'
+import './JoinRoomScreen.css'
+
+interface JoinRoomScreenProps {
+  // undefined while loading, null for an unknown code
+  inviteRoom: InviteRoom | null | undefined
+  formats: ConversationFormat[]
+  connected: boolean
+  onJoin: (name: string) => void
+  onBack: () => void
+}
+
+const STORAGE_KEY = 'onetwoone_name'
+
+const MODE_LABELS: Record<InviteRoom['mode'], string> = {
+  video: '🎥 Video chat',
+  audio: '🎤 Audio chat',
+  text: '💬 Text chat',
+}
+
+function JoinRoomScreen({ inviteRoom, formats, connected, onJoin, onBack }: JoinRoomScreenProps) {
+  const [name, setName] = useState<string>(() => {
+    try {
+      return localStorage.getItem(STORAGE_KEY) || ''
+    } catch {
+      return ''
+    }
+  })
+
+  const format = inviteRoom ? formats.find((f) => f.id === inviteRoom.formatId) : undefined
+
+  const handleJoin = () => {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      alert('Please enter your name to continue')
+      return
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, trimmedName)
+    } catch (error) {
+      console.warn('Failed to save name to localStorage:', error)
+    }
+    onJoin(trimmedName)
+  }
+
+  return (
+    <div className="join-room">
+      <h1 className="join-room-logo">OneTwoOne</h1>
+
+      {inviteRoom === undefined ? (
+        <p className="join-room-text">Looking up this room...</p>
+      ) : !inviteRoom || !inviteRoom.isOpen ? (
+        <>
+          <p className="join-room-text">This room is no longer open.</p>
+          <button className="join-room-back-btn" onClick={onBack} type="button">
+            Go to the home page
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="join-room-text">
+            {inviteRoom.hostName || 'Someone'} invited you to a private conversation
+          </p>
+          <div className="join-room-details">
+            <span>{MODE_LABELS[inviteRoom.mode]}</span>
+            {format && <span>{format.name}</span>}
+          </div>
+          <input
+            type="text"
+            className="join-room-name-input"
+            placeholder="Your name"
+            aria-label="Your name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim() && connected) handleJoin()
+            }}
+            maxLength={20}
+          />
+          <button className="join-room-btn" onClick={handleJoin} disabled={!connected} type="button">
+            {connected ? 'Join' : 'Connecting...'}
+          </button>
+          <button className="join-room-back-btn" onClick={onBack} type="button">
+            Not now
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default JoinRoomScreen
@@ -1,4 +1,9 @@
 import { useState, useEffect } from 'react'
+import { DEFAULT_FORMAT_ID } from '../lib/formats'
+import type { ConversationFormat } from '../lib/formats'
+import { CIRCLE_SIZES } from '../contexts/SupabaseContext'
+import type { Connection, MatchPreferences, RoomMode, TalkPreference } from '../contexts/SupabaseContext'
+import ConnectionsPanel from './ConnectionsPanel'
 import './LandingScreen.css'
 
 interface UserCounts {
@@ -10,15 +15,66 @@ interface UserCounts {
 
 interface LandingScreenProps {
   userCounts: UserCounts
-  onStartChat: (mode: 'video' | 'audio' | 'text' | 'any', name: string) => void
+  formats: ConversationFormat[]
+  onStartChat: (mode: 'video' | 'audio' | 'text' | 'any', name: string, preferences: MatchPreferences) => void
+  autoRequeue: boolean
+  onAutoRequeueChange: (enabled: boolean) => void
+  connections: Connection[]
+  onInviteConnection: (connection: Connection, mode: RoomMode, name: string, preferences: MatchPreferences) => void
+  onAcceptInvite: (connection: Connection, name: string, preferences: MatchPreferences) => void
+  onDeclineInvite: (connection: Connection) => void
+  onRemoveConnection: (connection: Connection) => void
+  onCreatePrivateRoom: (mode: RoomMode, name: string, preferences: MatchPreferences) => void
+  onStartCircle: (mode: RoomMode, size: number, name: string, preferences: MatchPreferences) => void
+  onHostEvent: (name: string) => void
   onShowAdmin: () => void
   onShowMiddleDebate: () => void
   connected: boolean
 }
 
 const STORAGE_KEY = 'onetwoone_name'
+const FORMAT_STORAGE_KEY = 'onetwoone_format'
+const TAGS_STORAGE_KEY = 'onetwoone_tags'
+const WIDEN_STORAGE_KEY = 'onetwoone_widen_after'
+const CIRCLE_SIZE_STORAGE_KEY = 'onetwoone_circle_size'
+const TALK_PREFERENCE_STORAGE_KEY = 'onetwoone_talk_preference'
+const WIDEN_OPTIONS = [30, 60, 120]
+const MAX_TAGS = 5
+const SUGGESTED_TAGS = ['philosophy', 'music', 'books', 'travel', 'climbing', 'tech', 'film', 'sports', 'food', 'art']
 
-function LandingScreen({ userCounts, onStartChat, onShowAdmin, onShowMiddleDebate, connected }: LandingScreenProps) {
+const PRIVATE_ROOM_MODES: { mode: RoomMode; icon: string; label: string }[] = [
+  { mode: 'video', icon: '🎥', label: 'Video' },
+  { mode: 'audio', icon: '🎤', label: 'Audio' },
+  { mode: 'text', icon: '💬', label: 'Text' },
+]
+
+const TALK_PREFERENCES: { value: TalkPreference; label: string }[] = [
+  { value: 'talk', label: 'I want to talk' },
+  { value: 'listen', label: 'I want to listen' },
+  { value: 'either', label: 'Either' },
+]
+
+// Same normalization the matcher applies server-side
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().slice(0, 24)
+
+function LandingScreen({
+  userCounts,
+  formats,
+  onStartChat,
+  autoRequeue,
+  onAutoRequeueChange,
+  connections,
+  onInviteConnection,
+  onAcceptInvite,
+  onDeclineInvite,
+  onRemoveConnection,
+  onCreatePrivateRoom,
+  onStartCircle,
+  onHostEvent,
+  onShowAdmin,
+  onShowMiddleDebate,
+  connected,
+}: LandingScreenProps) {
   // Load name from localStorage on mount
   const [name, setName] = useState<string>(() => {
     try {
@@ -28,6 +84,93 @@ function LandingScreen({ userCounts, onStartChat, onShowAdmin, onShowMiddleDebat
     }
   })
 
+  const [formatId, setFormatId] = useState<string>(() => {
+    try {
+      return localStorage.getItem(FORMAT_STORAGE_KEY) || DEFAULT_FORMAT_ID
+    } catch {
+      return DEFAULT_FORMAT_ID
+    }
+  })
+
+  const [interestTags, setInterestTags] = useState<string[]>(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(TAGS_STORAGE_KEY) || '[]')
+      return Array.isArray(stored) ? stored.slice(0, MAX_TAGS) : []
+    } catch {
+      return []
+    }
+  })
+  const [tagInput, setTagInput] = useState<string>('')
+
+  // Opt-in: seconds between queue widening steps, null when off
+  const [widenAfterSec, setWidenAfterSec] = useState<number | null>(() => {
+    try {
+      const stored = Number(localStorage.getItem(WIDEN_STORAGE_KEY))
+      return WIDEN_OPTIONS.includes(stored) ? stored : null
+    } catch {
+      return null
+    }
+  })
+
+  const [talkPreference, setTalkPreference] = useState<TalkPreference>(() => {
+    try {
+      const stored = localStorage.getItem(TALK_PREFERENCE_STORAGE_KEY)
+      return TALK_PREFERENCES.find((p) => p.value === stored)?.value ?? 'either'
+    } catch {
+      return 'either'
+    }
+  })
+
+  const [circleSize, setCircleSize] = useState<number>(() => {
+    try {
+      const stored = Number(localStorage.getItem(CIRCLE_SIZE_STORAGE_KEY))
+      return CIRCLE_SIZES.includes(stored) ? stored : CIRCLE_SIZES[1]
+    } catch {
+      return CIRCLE_SIZES[1]
+    }
+  })
+
+  useEffect(() => {
+    try {
+      if (widenAfterSec === null) localStorage.removeItem(WIDEN_STORAGE_KEY)
+      else localStorage.setItem(WIDEN_STORAGE_KEY, String(widenAfterSec))
+    } catch (error) {
+      console.warn('Failed to save widen setting to localStorage:', error)
+    }
+  }, [widenAfterSec])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(TALK_PREFERENCE_STORAGE_KEY, talkPreference)
+    } catch (error) {
+      console.warn('Failed to save talk preference to localStorage:', error)
+    }
+  }, [talkPreference])
+
+  // Save tags to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(interestTags))
+    } catch (error) {
+      console.warn('Failed to save interest tags to localStorage:', error)
+    }
+  }, [interestTags])
+
+  const toggleTag = (raw: string) => {
+    const tag = normalizeTag(raw)
+    if (!tag) return
+    setInterestTags((prev) => {
+      if (prev.includes(tag)) return prev.filter((t) => t !== tag)
+      if (prev.length >= MAX_TAGS) return prev
+      return [...prev, tag]
+    })
+  }
+
+  // Circle and talker/listener formats are only picked by the server
+  const activeFormats = formats.filter((f) => f.is_active && !f.for_circles && !f.talker_role)
+  // Fall back to the default if the saved format was retired
+  const selectedFormat = activeFormats.find((f) => f.id === formatId) ?? activeFormats[0]
+
   // Save name to localStorage whenever it changes
   useEffect(() => {
     const trimmedName = name.trim()
@@ -40,11 +183,12 @@ function LandingScreen({ userCounts, onStartChat, onShowAdmin, onShowMiddleDebat
     }
   }, [name])
 
-  const handleStartChat = (mode: 'video' | 'audio' | 'text' | 'any') => {
+  // The entered name, saved before starting; null (after telling the user) when empty
+  const confirmName = (): string | null => {
     const trimmedName = name.trim()
     if (!trimmedName) {
       alert('Please enter your name to continue')
-      return
+      return null
     }
     // Save to localStorage before starting
     try {
@@ -52,7 +196,63 @@ function LandingScreen({ userCounts, onStartChat, onShowAdmin, onShowMiddleDebat
     } catch (error) {
       console.warn('Failed to save name to localStorage:', error)
     }
-    onStartChat(mode, trimmedName)
+    return trimmedName
+  }
+
+  const getPreferences = (mode: 'video' | 'audio' | 'text' | 'any'): MatchPreferences => ({
+    formatId: selectedFormat?.id ?? DEFAULT_FORMAT_ID,
+    interestTags,
+    // 'any' already matches every mode
+    modeWidenAfterSec: mode === 'any' ? null : widenAfterSec,
+    talkPreference,
+  })
+
+  const handleStartChat = (mode: 'video' | 'audio' | 'text' | 'any') => {
+    const trimmedName = confirmName()
+    if (trimmedName) onStartChat(mode, trimmedName, getPreferences(mode))
+  }
+
+  const handleInvite = (connection: Connection, mode: RoomMode) => {
+    const trimmedName = confirmName()
+    if (trimmedName) onInviteConnection(connection, mode, trimmedName, getPreferences(mode))
+  }
+
+  const handleAcceptInvite = (connection: Connection) => {
+    const trimmedName = confirmName()
+    if (trimmedName) onAcceptInvite(connection, trimmedName, getPreferences(connection.incomingInviteMode ?? 'any'))
+  }
+
+  const handleCreatePrivateRoom = (mode: RoomMode) => {
+    const trimmedName = confirmName()
+    if (trimmedName) onCreatePrivateRoom(mode, trimmedName, getPreferences(mode))
+  }
+
+  const handleStartCircle = (mode: RoomMode) => {
+    const trimmedName = confirmName()
+    if (trimmedName) onStartCircle(mode, circleSize, trimmedName, getPreferences(mode))
+  }
+
+  const handleHostEvent = () => {
+    const trimmedName = confirmName()
+    if (trimmedName) onHostEvent(trimmedName)
+  }
+
+  const handleCircleSizeChange = (size: number) => {
+    setCircleSize(size)
+    try {
+      localStorage.setItem(CIRCLE_SIZE_STORAGE_KEY, String(size))
+    } catch (error) {
+      console.warn('Failed to save circle size to localStorage:', error)
+    }
+  }
+
+  const handleFormatChange = (id: string) => {
+    setFormatId(id)
+    try {
+      localStorage.setItem(FORMAT_STORAGE_KEY, id)
+    } catch (error) {
+      console.warn('Failed to save format to localStorage:', error)
+    }
   }
 
   return (
@@ -121,6 +321,131 @@ function LandingScreen({ userCounts, onStartChat, onShowAdmin, onShowMiddleDebat
         />
       </div>
       
+      {activeFormats.length > 1 && (
+        <div className="conversation-format-container">
+          <label htmlFor="conversation-format" className="name-label">
+            Conversation style:
+          </label>
+          <select
+            id="conversation-format"
+            className="conversation-format-select"
+            value={selectedFormat?.id ?? DEFAULT_FORMAT_ID}
+            onChange={(e) => handleFormatChange(e.target.value)}
+          >
+            {activeFormats.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+          </select>
+          {selectedFormat?.description && (
+            <p className="conversation-format-description">{selectedFormat.description}</p>
+          )}
+        </div>
+      )}
+
+      <div className="talk-preference-container">
+        <span className="name-label">I'm here to:</span>
+        <div className="talk-preference" role="radiogroup" aria-label="Talk or listen">
+          {TALK_PREFERENCES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={talkPreference === value}
+              className={`talk-preference-option ${talkPreference === value ? 'selected' : ''}`}
+              onClick={() => setTalkPreference(value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {talkPreference !== 'either' && (
+          <p className="talk-preference-hint">
+            {talkPreference === 'talk'
+              ? "We'll look for a listener first, and give you most of the time."
+              : "We'll look for someone who wants to talk first."}
+          </p>
+        )}
+      </div>
+
+      <div className="interest-tags-container">
+        <label htmlFor="interest-tag-input" className="name-label">
+          Interests (up to {MAX_TAGS}):
+        </label>
+        <div className="interest-tags">
+          {Array.from(new Set([...interestTags, ...SUGGESTED_TAGS])).map((tag) => {
+            const selected = interestTags.includes(tag)
+            return (
+              <button
+                key={tag}
+                type="button"
+                className={`interest-tag ${selected ? 'selected' : ''}`}
+                onClick={() => toggleTag(tag)}
+                disabled={!selected && interestTags.length >= MAX_TAGS}
+              >
+                {tag}
+              </button>
+            )
+          })}
+        </div>
+        <input
+          id="interest-tag-input"
+          type="text"
+          className="interest-tag-input"
+          placeholder={interestTags.length >= MAX_TAGS ? 'Tag limit reached' : 'Add your own and press Enter'}
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && tagInput.trim()) {
+              e.preventDefault()
+              if (!interestTags.includes(normalizeTag(tagInput))) toggleTag(tagInput)
+              setTagInput('')
+            }
+          }}
+          disabled={interestTags.length >= MAX_TAGS}
+          maxLength={24}
+        />
+      </div>
+
+      <div className="queue-options">
+        <label className="queue-option-toggle">
+          <input
+            type="checkbox"
+            checked={widenAfterSec !== null}
+            onChange={(e) => setWidenAfterSec(e.target.checked ? WIDEN_OPTIONS[0] : null)}
+          />
+          Open to other formats if it takes a while
+        </label>
+        {widenAfterSec !== null && (
+          <select
+            className="widen-queue-select"
+            value={widenAfterSec}
+            onChange={(e) => setWidenAfterSec(Number(e.target.value))}
+            aria-label="Widen after"
+          >
+            {WIDEN_OPTIONS.map((sec) => (
+              <option key={sec} value={sec}>
+                after {sec < 60 ? `${sec}s` : `${sec / 60} min`}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="queue-option-toggle">
+          <input type="checkbox" checked={autoRequeue} onChange={(e) => onAutoRequeueChange(e.target.checked)} />
+          Find someone new if my partner leaves
+        </label>
+      </div>
+
+      <ConnectionsPanel
+        connections={connections}
+        connected={connected}
+        onInvite={handleInvite}
+        onAccept={handleAcceptInvite}
+        onDecline={onDeclineInvite}
+        onRemove={onRemoveConnection}
+      />
+
       <div className="online-count">
         <span className="pulse-dot"></span>
         <span>{userCounts.total} people online</span>
@@ -252,6 +577,69 @@ function LandingScreen({ userCounts, onStartChat, onShowAdmin, onShowMiddleDebat
           </button>
         </div>
       </div>
+
+      <div className="circle-option">
+        <div className="format-header">Or join a circle:</div>
+        <p className="circle-option-text">
+          Take turns in a group of
+          <select
+            className="circle-size-select"
+            value={circleSize}
+            onChange={(e) => handleCircleSizeChange(Number(e.target.value))}
+            aria-label="Circle size"
+          >
+            {CIRCLE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+          people. One speaks, everyone listens.
+        </p>
+        <div className="private-room-actions">
+          {PRIVATE_ROOM_MODES.map(({ mode, icon, label }) => (
+            <button
+              key={mode}
+              type="button"
+              className="private-room-btn"
+              onClick={() => handleStartCircle(mode)}
+              disabled={!connected}
+            >
+              {icon} {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="private-room">
+        <div className="format-header">Or talk with someone you know:</div>
+        <p className="private-room-text">Create a private room and share the link. Nobody else can join it.</p>
+        <div className="private-room-actions">
+          {PRIVATE_ROOM_MODES.map(({ mode, icon, label }) => (
+            <button
+              key={mode}
+              type="button"
+              className="private-room-btn"
+              onClick={() => handleCreatePrivateRoom(mode)}
+              disabled={!connected}
+            >
+              {icon} {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="private-room">
+        <div className="format-header">Or bring a group together:</div>
+        <p className="private-room-text">
+          Host a speed-chat event. Everyone meets someone new each round, all at the same time.
+        </p>
+        <div className="private-room-actions">
+          <button type="button" className="private-room-btn" onClick={handleHostEvent} disabled={!connected}>
+            📅 Host an event
+          </button>
+        </div>
+      </div>
     </div>
   )
 }
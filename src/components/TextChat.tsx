@@ -1,26 +1,61 @@
 import { useState, useRef, useEffect } from 'react'
+import { LISTENER_REACTIONS, getListenerReaction } from '../lib/reactions'
+import type { ListenerReaction } from '../lib/reactions'
+import type { UserRole } from '../contexts/SupabaseContext'
 import './TextChat.css'
 
 interface Message {
   id?: string
+  clientId?: string
   sender: 'system' | 'user1' | 'user2'
   senderSocketId?: string
   senderName?: string
   text: string
   ts?: number
   isOwn?: boolean
+  status?: 'pending' | 'sent' | 'failed'
+  error?: string
+  reaction?: ListenerReaction
 }
 
 interface TextChatProps {
   messages: Message[]
   canSpeak: boolean
   onSendMessage: (text: string) => void
-  userId?: 'user1' | 'user2' | null
+  onRetryMessage?: (clientId: string) => void
+  onTyping?: () => void
+  onReact?: (reaction: ListenerReaction) => void
+  peerTyping?: boolean
+  reactionsRemaining?: number
+  userId?: UserRole | null
   userName?: string
   peerName?: string
 }
 
-function TextChat({ messages, canSpeak, onSendMessage, userId, userName = 'You', peerName = 'Stranger' }: TextChatProps) {
+// Why the server rejected a send, keyed by the send_message error code
+const SEND_ERROR_TEXT: Record<string, string> = {
+  not_your_turn: "Not sent: it's not your turn",
+  room_not_active: 'Not sent: the conversation has ended',
+  not_a_member: 'Not sent: you are no longer in this room',
+  empty_message: 'Not sent: message is empty',
+}
+
+// Retrying these can never succeed
+const FINAL_SEND_ERRORS = ['room_not_active', 'not_a_member', 'empty_message']
+
+function TextChat({
+  messages,
+  canSpeak,
+  onSendMessage,
+  onRetryMessage,
+  onTyping,
+  onReact,
+  peerTyping = false,
+  reactionsRemaining = 0,
+  userId,
+  userName = 'You',
+  peerName = 'Stranger',
+}: TextChatProps) {
   const [input, setInput] = useState<string>('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
@@ -71,6 +106,15 @@ function TextChat({ messages, canSpeak, onSendMessage, userId, userName = 'You',
             )
           }
           
+          if (msg.reaction) {
+            const info = getListenerReaction(msg.reaction)
+            return (
+              <div key={`reaction_${msg.ts ?? idx}`} className="message reaction">
+                {info?.emoji} {info?.label}
+              </div>
+            )
+          }
+
           // Use isOwn from message (computed by comparing user IDs)
           const isOwnMessage = msg.isOwn ?? false
           
@@ -83,8 +127,9 @@ function TextChat({ messages, canSpeak, onSendMessage, userId, userName = 'You',
           
           return (
             <div 
-              key={idx} 
-              className={`message ${isOwnMessage ? 'own' : 'other'}`}
+              // Keyed by client id so the optimistic copy and the stored row share a node
+              key={msg.clientId ?? msg.id ?? idx}
+              className={`message ${isOwnMessage ? 'own' : 'other'} ${msg.status ?? ''}`}
               data-sender={msg.sender}
               data-userid={userId}
               data-isown={isOwnMessage}
@@ -93,17 +138,47 @@ function TextChat({ messages, canSpeak, onSendMessage, userId, userName = 'You',
                 {displaySender}
               </div>
               <div className="message-text">{msg.text}</div>
+              {msg.status === 'pending' && <div className="message-status">Sending...</div>}
+              {msg.status === 'failed' && (
+                <div className="message-status">
+                  {(msg.error && SEND_ERROR_TEXT[msg.error]) || 'Not sent'}
+                  {onRetryMessage && msg.clientId && !FINAL_SEND_ERRORS.includes(msg.error ?? '') && (
+                    <button type="button" className="message-retry-btn" onClick={() => onRetryMessage(msg.clientId!)}>
+                      Retry
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           )
         })}
         <div ref={messagesEndRef} />
       </div>
       <div className="text-input-area">
+        {peerTyping && !canSpeak && <div className="typing-indicator">{peerName} is typing...</div>}
         {!canSpeak && (
           <div className="read-only-indicator">
             👀 Reading only - Wait for your turn to type
           </div>
         )}
+        {!canSpeak && onReact && (
+          <div className="reaction-bar">
+            {LISTENER_REACTIONS.map((r) => (
+              <button
+                key={r.id}
+                type="button"
+                className="reaction-btn"
+                onClick={() => onReact(r.id)}
+                disabled={reactionsRemaining <= 0}
+                title={r.label}
+              >
+                <span className="reaction-emoji">{r.emoji}</span>
+                {r.label}
+              </button>
+            ))}
+            <span className="reactions-remaining">{reactionsRemaining} left</span>
+          </div>
+        )}
         <div className="text-input-wrapper">
           <textarea
             className="text-input"
@@ -111,6 +186,7 @@ function TextChat({ messages, canSpeak, onSendMessage, userId, userName = 'You',
             value={input}
             onChange={(e) => {
               setInput(e.target.value)
+              if (canSpeak && e.target.value.trim()) onTyping?.()
               // Auto-resize textarea up to 4 lines
               e.target.style.height = 'auto'
               const lineHeight = 24 // 1.5rem
@@ -1,19 +1,86 @@
+import { TIME_EXTENSION_SEC } from '../contexts/SupabaseContext'
 import './TimerDisplay.css'
 
 interface TimerDisplayProps {
   label: string
   description: string
   timeDisplay: string
+  prompt?: string | null
+  // The round's conversation prompt, shared by both members
+  roundPrompt?: string | null
+  canShufflePrompt?: boolean
+  onShufflePrompt?: () => void
+  paused?: boolean
+  // Disables the request buttons while either side's request is open
+  timeRequestPending?: boolean
+  onRequestExtend?: () => void
+  onRequestPause?: () => void
+  onResume?: () => void
+  // Someone else paused, so resuming is a request they have to accept
+  resumeNeedsAgreement?: boolean
   canSkip: boolean
   onSkip: () => void
 }
 
-function TimerDisplay({ label, description, timeDisplay, canSkip, onSkip }: TimerDisplayProps) {
+function TimerDisplay({
+  label,
+  description,
+  timeDisplay,
+  prompt,
+  roundPrompt,
+  canShufflePrompt,
+  onShufflePrompt,
+  paused = false,
+  timeRequestPending = false,
+  onRequestExtend,
+  onRequestPause,
+  onResume,
+  resumeNeedsAgreement = false,
+  canSkip,
+  onSkip,
+}: TimerDisplayProps) {
   return (
     <div className="timer-display">
       <div className="segment-label">{label}</div>
       <div className="segment-description">{description}</div>
-      <div className="timer-circle">{timeDisplay}</div>
+      {prompt && <div className="segment-prompt">{prompt}</div>}
+      {roundPrompt && (
+        <div className="round-prompt">
+          <span className="round-prompt-text">{roundPrompt}</span>
+          {canShufflePrompt && onShufflePrompt && (
+            <button className="shuffle-prompt-btn" onClick={onShufflePrompt} type="button" title="Draw a different prompt">
+              Shuffle prompt
+            </button>
+          )}
+        </div>
+      )}
+      <div className={`timer-circle ${paused ? 'paused' : ''}`}>{timeDisplay}</div>
+      {paused && <div className="timer-paused-label">Paused</div>}
+      {(onRequestExtend || onRequestPause || onResume) && (
+        <div className="time-controls">
+          {onRequestExtend && (
+            <button className="time-control-btn" onClick={onRequestExtend} disabled={timeRequestPending} type="button">
+              +{TIME_EXTENSION_SEC}s
+            </button>
+          )}
+          {paused
+            ? onResume && (
+                <button
+                  className="time-control-btn"
+                  onClick={onResume}
+                  disabled={resumeNeedsAgreement && timeRequestPending}
+                  type="button"
+                >
+                  {resumeNeedsAgreement ? 'Ask to resume' : 'Resume'}
+                </button>
+              )
+            : onRequestPause && (
+                <button className="time-control-btn" onClick={onRequestPause} disabled={timeRequestPending} type="button">
+                  Pause
+                </button>
+              )}
+        </div>
+      )}
       {canSkip && (
         <button 
           className="skip-btn" 
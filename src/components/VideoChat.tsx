@@ -1,61 +1,46 @@
-import { useEffect, useRef, useMemo } from 'react'
+import { useEffect, useRef } from 'react'
+import { attachLocalStream } from '../lib/webrtcSignaling'
+import type { RoomSignaling, SignalingMessage } from '../lib/webrtcSignaling'
+import type { UserRole } from '../contexts/SupabaseContext'
 import './VideoChat.css'
 
-type UserId = 'user1' | 'user2'
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type SocketLike = any // Socket.IO removed, using any for compatibility
-
 interface VideoChatProps {
   canSpeak: boolean
   roomId: string
-  userId: 'user1' | 'user2' | null
+  userId: UserRole | null
   peerId: string | null
-  socket: SocketLike
+  socket: RoomSignaling | null
   currentSegment: number
 }
 
-// Mic permission: segment is array index (0-3), returns true if user can speak
-function micAllowed(segment: number, userId: UserId): boolean {
-  if (segment === 0) return userId === "user1"
-  if (segment === 1) return userId === "user2"
-  if (segment === 2) return userId === "user2"
-  if (segment === 3) return userId === "user1"
-  return false
-}
-
-interface OfferMsg {
-  roomId: string
+interface OfferMsg extends SignalingMessage {
   offer: RTCSessionDescriptionInit
-  fromId: string
 }
 
-interface AnswerMsg {
-  roomId: string
+interface AnswerMsg extends SignalingMessage {
   answer: RTCSessionDescriptionInit
-  fromId: string
 }
 
-interface IceCandidateMsg {
-  roomId: string
+interface IceCandidateMsg extends SignalingMessage {
   candidate: RTCIceCandidateInit
-  fromId: string
 }
 
-function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
+function VideoChat({ canSpeak, roomId, userId, socket, currentSegment }: VideoChatProps) {
   const localVideoRef = useRef<HTMLVideoElement>(null)
   const remoteVideoRef = useRef<HTMLVideoElement>(null)
   const pcRef = useRef<RTCPeerConnection | null>(null)
   const localStreamRef = useRef<MediaStream | null>(null)
-  const videoTxRef = useRef<RTCRtpTransceiver | null>(null)
-  const audioTxRef = useRef<RTCRtpTransceiver | null>(null)
   const iceBufferRef = useRef<RTCIceCandidateInit[]>([])
   const initKeyRef = useRef<string | null>(null)
+  const socketRef = useRef<RoomSignaling | null>(socket)
+  // Perfect negotiation state: user2 is the polite peer and yields on offer glare
+  const makingOfferRef = useRef(false)
+  const ignoreOfferRef = useRef(false)
+
+  socketRef.current = socket
 
-  const desiredMicOn = useMemo(() => {
-    if (!userId) return false
-    return micAllowed(currentSegment, userId)
-  }, [currentSegment, userId])
+  // Mic follows the conversation format's speaker for the current segment
+  const desiredMicOn = canSpeak && !!userId
 
   useEffect(() => {
     if (!socket || !roomId) return
@@ -98,18 +83,41 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
       pcRef.current?.close()
     } catch {}
     pcRef.current = null
-    videoTxRef.current = null
-    audioTxRef.current = null
     iceBufferRef.current = []
+    makingOfferRef.current = false
+    ignoreOfferRef.current = false
 
     const pc = new RTCPeerConnection({
       iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
     })
     pcRef.current = pc
+    const remoteStream = new MediaStream()
 
     pc.onsignalingstatechange = () => console.log("[PC] signalingState", pc.signalingState)
     pc.oniceconnectionstatechange = () => console.log("[PC] ICE", pc.iceConnectionState)
-    pc.onconnectionstatechange = () => console.log("[PC] connection", pc.connectionState)
+    pc.onconnectionstatechange = () => {
+      console.log("[PC] connection", pc.connectionState)
+      if (pc.connectionState === "failed" && !cancelled) {
+        console.log("[PC] connection failed, restarting ICE")
+        pc.restartIce()
+      }
+    }
+
+    // Fires for the initial offer (user1 adding tracks) and for any later
+    // renegotiation (ICE restart, user2 attaching tracks after answering)
+    pc.onnegotiationneeded = async () => {
+      try {
+        makingOfferRef.current = true
+        await pc.setLocalDescription()
+        if (cancelled || !pc.localDescription) return
+        console.log("[SIGNAL OUT] offer", "me=", socket.id, "room=", roomId)
+        socketRef.current?.emit("webrtc-offer", { offer: pc.localDescription.toJSON() })
+      } catch (e) {
+        console.error("[SIGNAL] negotiation error:", e)
+      } finally {
+        makingOfferRef.current = false
+      }
+    }
 
     pc.onicecandidate = (e) => {
       if (cancelled) return
@@ -118,15 +126,16 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
         return
       }
       console.log("[SIGNAL OUT] ice-candidate", "me=", socket.id, "room=", roomId)
-      socket.emit("webrtc-ice-candidate", { roomId, candidate: e.candidate.toJSON?.() ?? e.candidate })
+      socketRef.current?.emit("webrtc-ice-candidate", { candidate: e.candidate.toJSON() })
     }
 
     pc.ontrack = (e) => {
       if (cancelled) return
       const el = remoteVideoRef.current
       if (!el) return
-      const stream = e.streams?.[0] ?? new MediaStream([e.track])
-      el.srcObject = stream
+      const stream = e.streams?.[0] ?? remoteStream
+      if (!e.streams?.[0]) remoteStream.addTrack(e.track)
+      if (el.srcObject !== stream) el.srcObject = stream
       el.play().catch(() => {})
       console.log("[PC] ontrack", e.track.kind, e.track.id)
     }
@@ -187,29 +196,15 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
         audioTrack.enabled = desiredMicOn
 
         if (cancelled || pcRef.current !== pc) return
-        
-        // Add transceivers for video and audio
-        videoTxRef.current = pc.addTransceiver("video", { direction: "sendrecv" })
-        await videoTxRef.current.sender.replaceTrack(videoTrack)
-        
-        audioTxRef.current = pc.addTransceiver("audio", { direction: "sendrecv" })
-        await audioTxRef.current.sender.replaceTrack(audioTrack)
 
-        // Ensure tracks are enabled correctly
-        videoTrack.enabled = true
-        audioTrack.enabled = desiredMicOn
-        if (videoTxRef.current.sender.track) videoTxRef.current.sender.track.enabled = true
-        if (audioTxRef.current.sender.track) audioTxRef.current.sender.track.enabled = desiredMicOn
+        // user1 starts negotiation by adding tracks. user2 waits for the offer so its
+        // tracks ride on the offered transceivers; if the offer already arrived,
+        // attaching now triggers a renegotiation from user2.
+        if (userId === "user1" || pc.remoteDescription) {
+          await attachLocalStream(pc, stream)
+        }
 
         console.log("[INIT] transceivers:", pc.getTransceivers().length, "senders:", pc.getSenders().length)
-
-        if (userId === "user1") {
-          const offer = await pc.createOffer()
-          if (cancelled) return
-          await pc.setLocalDescription(offer)
-          console.log("[SIGNAL OUT] offer", "me=", socket.id, "room=", roomId)
-          socket.emit("webrtc-offer", { roomId, offer })
-        }
       } catch (err: any) {
         if (!cancelled) {
           console.error("[INIT] getUserMedia error:", err)
@@ -228,6 +223,7 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
 
     return () => {
       cancelled = true
+      initKeyRef.current = null
       try {
         localStreamRef.current?.getTracks().forEach((t) => t.stop())
       } catch {}
@@ -236,8 +232,6 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
         pc.close()
       } catch {}
       if (pcRef.current === pc) pcRef.current = null
-      videoTxRef.current = null
-      audioTxRef.current = null
       iceBufferRef.current = []
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -247,70 +241,101 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
   useEffect(() => {
     if (!socket || !roomId || !userId) return
 
+    const polite = userId === "user2"
+
+    // Candidates can arrive before the description they belong to; hold them until then
+    const flushIceBuffer = async (pc: RTCPeerConnection) => {
+      const buffered = iceBufferRef.current
+      iceBufferRef.current = []
+      for (const c of buffered) {
+        try {
+          await pc.addIceCandidate(c)
+        } catch {}
+      }
+    }
+
+    const onPeerJoined = (msg: SignalingMessage) => {
+      const pc = pcRef.current
+      if (!pc) return
+      // The peer subscribed after our offer went out; resend it so it isn't lost
+      if (pc.signalingState === "have-local-offer" && pc.localDescription) {
+        console.log("[SIGNAL OUT] resend offer", "to=", msg.fromId, "room=", roomId)
+        socket.emit("webrtc-offer", { offer: pc.localDescription.toJSON() })
+      }
+    }
+
     const onOffer = async (msg: OfferMsg) => {
-      if (msg.roomId !== roomId) return
-      if (msg.fromId === socket.id) return
-      if (userId !== "user2") return
-      if (!pcRef.current) return
+      const pc = pcRef.current
+      if (!pc) return
+
+      const collision = makingOfferRef.current || pc.signalingState !== "stable"
+      ignoreOfferRef.current = !polite && collision
+      if (ignoreOfferRef.current) {
+        console.log("[SIGNAL IN] ignore colliding offer", "from=", msg.fromId)
+        return
+      }
 
       console.log("[SIGNAL IN] offer", "from=", msg.fromId, "me=", socket.id, "room=", roomId)
 
       try {
-        await pcRef.current.setRemoteDescription(new RTCSessionDescription(msg.offer))
-
-        const buffered = iceBufferRef.current
-        iceBufferRef.current = []
-        for (const c of buffered) {
-          try {
-            await pcRef.current.addIceCandidate(new RTCIceCandidate(c))
-          } catch {}
+        // Rolls back our own pending offer first when we are the polite peer
+        await pc.setRemoteDescription(msg.offer)
+        await flushIceBuffer(pc)
+
+        if (localStreamRef.current) {
+          await attachLocalStream(pc, localStreamRef.current)
         }
 
-        const answer = await pcRef.current.createAnswer()
-        await pcRef.current.setLocalDescription(answer)
+        await pc.setLocalDescription()
+        if (!pc.localDescription) return
 
         console.log("[SIGNAL OUT] answer", "me=", socket.id, "room=", roomId)
-        socket.emit("webrtc-answer", { roomId, answer })
+        socket.emit("webrtc-answer", { answer: pc.localDescription.toJSON() })
       } catch (e) {
         console.error("[SIGNAL] offer error:", e)
       }
     }
 
     const onAnswer = async (msg: AnswerMsg) => {
-      if (msg.roomId !== roomId) return
-      if (msg.fromId === socket.id) return
-      if (userId !== "user1") return
-      if (!pcRef.current) return
+      const pc = pcRef.current
+      if (!pc) return
 
       console.log("[SIGNAL IN] answer", "from=", msg.fromId, "me=", socket.id, "room=", roomId)
 
       try {
-        await pcRef.current.setRemoteDescription(new RTCSessionDescription(msg.answer))
+        if (pc.signalingState !== "have-local-offer") {
+          console.warn("[SIGNAL] ignore answer, state:", pc.signalingState)
+          return
+        }
+        await pc.setRemoteDescription(msg.answer)
+        await flushIceBuffer(pc)
       } catch (e) {
         console.error("[SIGNAL] answer error:", e)
       }
     }
 
     const onIceCandidate = async (msg: IceCandidateMsg) => {
-      if (msg.roomId !== roomId) return
-      if (msg.fromId === socket.id) return
-      if (!pcRef.current) {
+      const pc = pcRef.current
+      if (!pc || !pc.remoteDescription) {
         iceBufferRef.current.push(msg.candidate)
         return
       }
 
       try {
-        await pcRef.current.addIceCandidate(new RTCIceCandidate(msg.candidate))
+        await pc.addIceCandidate(msg.candidate)
       } catch (e) {
-        console.error("[SIGNAL] ice-candidate error:", e)
+        // Candidates for an offer we ignored during glare are expected to fail
+        if (!ignoreOfferRef.current) console.error("[SIGNAL] ice-candidate error:", e)
       }
     }
 
+    socket.on("join-room", onPeerJoined)
     socket.on("webrtc-offer", onOffer)
     socket.on("webrtc-answer", onAnswer)
     socket.on("webrtc-ice-candidate", onIceCandidate)
 
     return () => {
+      socket.off("join-room", onPeerJoined)
       socket.off("webrtc-offer", onOffer)
       socket.off("webrtc-answer", onAnswer)
       socket.off("webrtc-ice-candidate", onIceCandidate)
@@ -325,10 +350,9 @@ function VideoChat({ roomId, userId, socket, currentSegment }: VideoChatProps) {
       console.log("[SEG] Audio track enabled set to:", desiredMicOn, "segment:", currentSegment, "userId:", userId)
     }
 
-    const senderTrack = audioTxRef.current?.sender?.track
-    if (senderTrack) {
-      senderTrack.enabled = desiredMicOn
-    }
+    pcRef.current?.getSenders().forEach((s) => {
+      if (s.track?.kind === "audio") s.track.enabled = desiredMicOn
+    })
 
     const pc = pcRef.current
     if (pc) {
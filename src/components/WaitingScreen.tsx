@@ -1,10 +1,73 @@
+import { useEffect, useState } from 'react'
+import type { ChatMode, QueueStatus } from '../contexts/SupabaseContext'
 import './WaitingScreen.css'
 
 interface WaitingScreenProps {
+  queueStatus: QueueStatus | null
+  chosenMode: ChatMode | null
+  acceptableModes: ChatMode[]
+  // Set for a private room, e.g. who was invited; there is no queue to show
+  waitingFor?: string | null
+  // Set for a room opened with a shareable link
+  inviteLink?: string | null
+  // Set while a circle fills up
+  circleProgress?: { joined: number; size: number } | null
   onBack: () => void
 }
 
-function WaitingScreen({ onBack }: WaitingScreenProps) {
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const formatEstimate = (seconds: number): string => {
+  if (seconds < 15) return 'any moment now'
+  if (seconds < 60) return 'under a minute'
+  return `about ${Math.round(seconds / 60)} min`
+}
+
+function WaitingScreen({
+  queueStatus,
+  chosenMode,
+  acceptableModes,
+  waitingFor,
+  inviteLink,
+  circleProgress,
+  onBack,
+}: WaitingScreenProps) {
+  const [copied, setCopied] = useState(false)
+  // Live counter: extrapolate from the last server snapshot between polls
+  const [snapshotAt, setSnapshotAt] = useState<number>(() => Date.now())
+  const [now, setNow] = useState<number>(() => Date.now())
+
+  useEffect(() => {
+    setSnapshotAt(Date.now())
+  }, [queueStatus])
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const sinceSnapshot = Math.max(0, Math.floor((now - snapshotAt) / 1000))
+  const waited = queueStatus ? queueStatus.waitedSec + sinceSnapshot : null
+  const remaining =
+    queueStatus?.estimatedWaitSec != null ? Math.max(0, queueStatus.estimatedWaitSec - sinceSnapshot) : null
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return
+    try {
+      await navigator.clipboard.writeText(inviteLink)
+      setCopied(true)
+    } catch (error) {
+      console.warn('Failed to copy invite link:', error)
+    }
+  }
+
+  // Modes the queue widened to beyond the one the user picked
+  const widenedModes = chosenMode && chosenMode !== 'any' ? acceptableModes.filter((m) => m !== chosenMode) : []
+
   return (
     <div className="waiting-screen">
       <button className="waiting-back-btn" onClick={onBack} title="Go back home">
@@ -14,8 +77,54 @@ function WaitingScreen({ onBack }: WaitingScreenProps) {
         </svg>
       </button>
       <div className="waiting-spinner"></div>
-      <h2 className="waiting-text">Finding your match...</h2>
-      <p className="waiting-subtext">This usually takes just a few seconds</p>
+      {waitingFor ? (
+        <>
+          <h2 className="waiting-text">Waiting for {waitingFor}...</h2>
+          <p className="waiting-subtext">We'll start as soon as they join</p>
+        </>
+      ) : inviteLink ? (
+        <>
+          <h2 className="waiting-text">Your private room is ready</h2>
+          <p className="waiting-subtext">Send this link to the person you want to talk to</p>
+          <div className="waiting-invite">
+            <input className="waiting-invite-link" value={inviteLink} readOnly onFocus={(e) => e.target.select()} />
+            <button className="waiting-invite-copy" onClick={copyInviteLink} type="button">
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </>
+      ) : circleProgress ? (
+        <>
+          <h2 className="waiting-text">Gathering your circle...</h2>
+          <p className="waiting-position">
+            {circleProgress.joined} of {circleProgress.size} here
+          </p>
+          <p className="waiting-subtext">The first turn starts when every seat is taken</p>
+        </>
+      ) : (
+        <h2 className="waiting-text">Finding your match...</h2>
+      )}
+      {waitingFor || inviteLink || circleProgress ? null : queueStatus ? (
+        <div className="waiting-queue">
+          <p className="waiting-position">
+            You're #{queueStatus.position} in line
+            {queueStatus.waitingCount > 1 && ` · ${queueStatus.waitingCount} waiting`}
+          </p>
+          {waited !== null && <p className="waiting-elapsed">Waiting {formatDuration(waited)}</p>}
+          <p className="waiting-subtext">
+            {remaining !== null
+              ? `Estimated wait: ${formatEstimate(remaining)}`
+              : "We'll connect you as soon as someone joins"}
+          </p>
+        </div>
+      ) : (
+        <p className="waiting-subtext">Checking the queue...</p>
+      )}
+      {widenedModes.length > 0 && (
+        <p className="waiting-widened">
+          Also matching {widenedModes.join(' and ')} chats now
+        </p>
+      )}
     </div>
   )
 }
@@ -1,12 +1,20 @@
-import { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
+import { createContext, useContext, useEffect, useState, useCallback, useRef, useMemo } from 'react'
 import type { ReactNode } from 'react'
 import { supabase, ensureAnonymousSession, isSupabaseConfigured } from '../lib/supabase'
+import { CLASSIC_FORMAT, DEFAULT_FORMAT_ID, expandCircleFormat, getFormatSegment } from '../lib/formats'
+import type { ConversationFormat, SeatRole } from '../lib/formats'
+import { MAX_REACTIONS_PER_SEGMENT, REACTION_THROTTLE_MS, getListenerReaction } from '../lib/reactions'
+import type { ListenerReaction } from '../lib/reactions'
+import type { Transcript } from '../lib/transcript'
+import type { EventSchedule } from '../lib/events'
 import type { RealtimeChannel, RealtimePresenceState } from '@supabase/supabase-js'
 
 // Simple types without strict database typing
 export type ChatMode = 'video' | 'audio' | 'text' | 'any'
+// What a matched room can actually be in
+export type RoomMode = Exclude<ChatMode, 'any'>
 export type RoomStatus = 'waiting' | 'matched' | 'closed'
-export type UserRole = 'user1' | 'user2'
+export type UserRole = SeatRole
 
 export interface Room {
   id: string
@@ -16,6 +24,50 @@ export interface Room {
   segment_start_at: string | null
   current_segment: number
   segment_duration_sec: number
+  segment_ends_at: string | null
+  round: number
+  format_id: string
+  shared_tags: string[]
+  acceptable_modes: Exclude<ChatMode, 'any'>[]
+  mode_widen_after_sec: number | null
+  // Drawn by the server for each round; the same for both members
+  prompt_id: string | null
+  prompt_text: string | null
+  // Set while both members have agreed to pause; segment_ends_at is null until resumed
+  paused_at: string | null
+  paused_remaining_ms: number | null
+  // Who asked for the pause; only they can resume without asking
+  paused_by: string | null
+  // Invite rooms the matcher never offers to strangers
+  is_private: boolean
+  // Set on private rooms opened with a shareable /r/:code link
+  invite_code: string | null
+  // Set on circles: the number of seats, and the taken ones in speaking order
+  circle_size: number | null
+  circle_seats: SeatRole[]
+  // Set on rooms a speed-chat event opened for one of its rounds
+  event_id: string | null
+  event_round: number | null
+  // Set when the server paired this waiting room with an older one and closed it
+  merged_into: string | null
+}
+
+// Whether someone came to talk, to listen, or doesn't mind
+export type TalkPreference = 'talk' | 'listen' | 'either'
+
+export interface MatchPreferences {
+  formatId: string
+  interestTags: string[]
+  // Seconds between queue widening steps, null to only match the chosen mode
+  modeWidenAfterSec: number | null
+  talkPreference: TalkPreference
+}
+
+export const DEFAULT_MATCH_PREFERENCES: MatchPreferences = {
+  formatId: DEFAULT_FORMAT_ID,
+  interestTags: [],
+  modeWidenAfterSec: null,
+  talkPreference: 'either',
 }
 
 export interface Message {
@@ -25,8 +77,14 @@ export interface Message {
   display_name: string | null
   text: string
   created_at: string
+  client_id: string | null
 }
 
+// Codes send_message puts in the error hint, plus 'failed' for anything else
+export type SendMessageError = 'not_a_member' | 'room_not_active' | 'not_your_turn' | 'empty_message' | 'failed'
+
+const SEND_MESSAGE_ERRORS: SendMessageError[] = ['not_a_member', 'room_not_active', 'not_your_turn', 'empty_message']
+
 interface UserCounts {
   total: number
   video: number
@@ -34,12 +92,162 @@ interface UserCounts {
   text: number
 }
 
-interface MatchResult {
+export interface MatchResult {
   roomId: string
   role: UserRole
   matched: boolean
   peerName: string | null
   chatMode: ChatMode
+  sharedTags: string[]
+  // Seats in the circle, null for pairs
+  circleSize: number | null
+}
+
+export interface ResumeResult extends MatchResult {
+  displayName: string
+  preferences: MatchPreferences
+}
+
+export interface TranscriptConsent {
+  mine: boolean
+  peer: boolean
+}
+
+const noTranscriptConsent: TranscriptConsent = { mine: false, peer: false }
+
+export type TimeRequestKind = 'extend' | 'pause' | 'resume'
+
+// A pending +time, pause or resume request; `mine` when we asked and the peer has to answer
+export interface TimeRequest {
+  id: number
+  kind: TimeRequestKind
+  mine: boolean
+}
+
+// The peer's answer to our last request
+export interface TimeResponse {
+  kind: TimeRequestKind
+  accepted: boolean
+  at: number
+}
+
+// A pending proposal to switch the room to another mode
+export interface ModeRequest {
+  id: number
+  mode: RoomMode
+  mine: boolean
+}
+
+export interface ModeResponse {
+  mode: RoomMode
+  accepted: boolean
+  at: number
+}
+
+const ROOM_MODES: RoomMode[] = ['video', 'audio', 'text']
+
+// Matches matchmaking_settings.time_extension_sec
+export const TIME_EXTENSION_SEC = 60
+
+export interface KeepInTouchConsent {
+  mine: boolean
+  peer: boolean
+}
+
+const noKeepInTouchConsent: KeepInTouchConsent = { mine: false, peer: false }
+
+// Someone both sides agreed to keep in touch with, and any open invite between us
+export interface Connection {
+  id: string
+  peerName: string | null
+  connectedAt: string
+  incomingInviteId: string | null
+  incomingInviteMode: RoomMode | null
+  outgoingInviteId: string | null
+}
+
+export const CIRCLE_SIZES = [3, 4, 5, 6]
+
+export interface CircleMember {
+  userId: string
+  role: SeatRole
+  displayName: string | null
+}
+
+// What the /r/:code page shows before joining
+export interface InviteRoom {
+  hostName: string | null
+  mode: RoomMode
+  formatId: string
+  isOpen: boolean
+}
+
+// What the /e/:code page shows; times are server time
+export interface SpeedEvent extends EventSchedule {
+  id: string
+  code: string
+  title: string
+  hostName: string | null
+  mode: RoomMode
+  currentRound: number
+  status: 'scheduled' | 'running' | 'ended'
+  participantCount: number
+  joined: boolean
+  myName: string | null
+  // The caller's room while the current round runs, null when sitting it out
+  myRoomId: string | null
+}
+
+export interface EventMeeting {
+  round: number
+  partnerName: string | null
+}
+
+export interface NewSpeedEvent {
+  title: string
+  mode: RoomMode
+  startsAt: Date
+  roundSec: number
+  breakSec: number
+  roundCount: number
+}
+
+// Maps a get_event / sync_event row
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toSpeedEvent(code: string, data: any): SpeedEvent | null {
+  const row = Array.isArray(data) ? data[0] : data
+  if (!row) return null
+  return {
+    id: row.id,
+    code,
+    title: row.title,
+    hostName: row.host_name,
+    mode: row.mode as RoomMode,
+    startsAt: new Date(row.starts_at).getTime(),
+    roundSec: row.round_sec,
+    breakSec: row.break_sec,
+    roundCount: row.round_count,
+    currentRound: row.current_round,
+    status: row.status,
+    participantCount: row.participant_count,
+    joined: row.joined,
+    myName: row.my_name,
+    myRoomId: row.my_room_id,
+  }
+}
+
+export interface RoomFeedback {
+  rating: number
+  feltHeard: boolean
+  stayedOnTurn: boolean
+  comment: string
+}
+
+export interface QueueStatus {
+  position: number
+  waitingCount: number
+  waitedSec: number
+  estimatedWaitSec: number | null
 }
 
 // Health status for debugging
@@ -62,16 +270,90 @@ interface SupabaseContextType {
   peerName: string | null
   messages: Message[]
   healthStatus: HealthStatus
-  startChat: (mode: ChatMode, displayName: string) => Promise<MatchResult | null>
+  serverTimeOffset: number
+  formats: ConversationFormat[]
+  currentFormat: ConversationFormat
+  // Date.now() when the peer last reloaded back into the room
+  peerReconnectedAt: number | null
+  peerTyping: boolean
+  // Latest reaction from the listener; `at` makes repeats of the same reaction distinct
+  peerReaction: { reaction: ListenerReaction; at: number } | null
+  reactionsRemaining: number
+  transcriptConsent: TranscriptConsent
+  timeRequest: TimeRequest | null
+  timeResponse: TimeResponse | null
+  modeRequest: ModeRequest | null
+  modeResponse: ModeResponse | null
+  keepInTouchConsent: KeepInTouchConsent
+  // Everyone seated in the current circle; empty for pairs
+  circleMembers: CircleMember[]
+  startChat: (mode: ChatMode, displayName: string, preferences?: MatchPreferences) => Promise<MatchResult | null>
+  resumeRoom: () => Promise<ResumeResult | null>
+  // Moves into the room a closed waiting room was merged into
+  followMergedRoom: (closedRoomId: string) => Promise<MatchResult | null>
   leaveRoom: () => Promise<void>
-  sendMessage: (text: string, displayName: string) => Promise<void>
-  advanceSegment: () => Promise<void>
+  // Resolves null once the row is stored, else why it was rejected; safe to retry with the same clientId
+  sendMessage: (text: string, displayName: string, clientId: string) => Promise<SendMessageError | null>
+  skipSegment: (expectedSegment: number) => Promise<void>
+  expireSegment: (expectedSegment: number) => Promise<void>
+  // Speaker only; draws a different prompt for the current round
+  shufflePrompt: () => Promise<void>
+  // Deadline changes need the peer's consent; so does resuming someone else's pause
+  requestTimeChange: (kind: TimeRequestKind) => Promise<void>
+  respondTimeRequest: (accept: boolean) => Promise<void>
+  resumeSegment: () => Promise<void>
+  // Switching mode also needs the peer's consent; segment and round carry on
+  requestModeChange: (mode: RoomMode) => Promise<void>
+  respondModeRequest: (accept: boolean) => Promise<void>
   submitReport: (reasons: string[], details: string) => Promise<void>
+  blockPeer: () => Promise<void>
+  getQueueStatus: () => Promise<QueueStatus | null>
+  notifyTyping: () => void
+  sendReaction: (reaction: ListenerReaction) => void
+  // Request or accept; the transcript is available once both have consented.
+  // These use the current room unless given a room that has already closed.
+  consentTranscriptExport: (roomId?: string) => Promise<TranscriptConsent | null>
+  getTranscriptConsent: (roomId: string) => Promise<TranscriptConsent | null>
+  fetchTranscript: (roomId?: string) => Promise<Transcript | null>
+  // Takes the room id because feedback is given after the room has been left
+  submitFeedback: (roomId: string, feedback: RoomFeedback) => Promise<void>
+  // Also takes the room id so it works from the post-chat step
+  keepInTouch: (roomId: string, displayName: string) => Promise<void>
+  getConnections: () => Promise<Connection[]>
+  removeConnection: (connectionId: string) => Promise<void>
+  // Opens a private room the other person can join from their connections
+  sendConnectionInvite: (connectionId: string, mode: RoomMode, displayName: string, formatId: string) => Promise<MatchResult | null>
+  acceptConnectionInvite: (inviteId: string, displayName: string) => Promise<MatchResult | null>
+  declineConnectionInvite: (inviteId: string) => Promise<void>
+  createInviteRoom: (mode: RoomMode, displayName: string, formatId: string) => Promise<MatchResult | null>
+  getInviteRoom: (code: string) => Promise<InviteRoom | null>
+  joinInviteRoom: (code: string, displayName: string) => Promise<MatchResult | null>
+  startCircle: (mode: RoomMode, size: number, displayName: string) => Promise<MatchResult | null>
+  // Returns the new event's code
+  createEvent: (event: NewSpeedEvent, displayName: string) => Promise<string | null>
+  getEvent: (code: string) => Promise<SpeedEvent | null>
+  joinEvent: (code: string, displayName: string) => Promise<boolean>
+  leaveEvent: (code: string) => Promise<void>
+  // Marks us present and lets the server run any rotation that is due
+  syncEvent: (code: string) => Promise<SpeedEvent | null>
+  enterEventRoom: (code: string) => Promise<MatchResult | null>
+  getEventSummary: (code: string) => Promise<EventMeeting[]>
   trackPresence: (mode: ChatMode | null) => void
 }
 
 const defaultCounts: UserCounts = { total: 0, video: 0, audio: 0, text: 0 }
 
+// Must stay well under matchmaking_settings.heartbeat_stale_sec
+const HEARTBEAT_INTERVAL_MS = 10000
+// Matches matchmaking_settings.peer_left_grace_sec
+const PEER_LEFT_GRACE_MS = 15000
+const PEER_LEFT_RETRY_MS = 5000
+// Send at most one typing broadcast per interval; the peer hides the indicator after the timeout
+const TYPING_THROTTLE_MS = 2000
+const TYPING_TIMEOUT_MS = 3500
+// Matches matchmaking_settings.time_request_ttl_sec
+const TIME_REQUEST_TTL_MS = 30000
+
 const defaultHealthStatus: HealthStatus = {
   configured: isSupabaseConfigured(),
   authStatus: 'initializing',
@@ -91,11 +373,59 @@ const SupabaseContext = createContext<SupabaseContextType>({
   peerName: null,
   messages: [],
   healthStatus: defaultHealthStatus,
+  serverTimeOffset: 0,
+  formats: [CLASSIC_FORMAT],
+  currentFormat: CLASSIC_FORMAT,
+  peerReconnectedAt: null,
+  peerTyping: false,
+  peerReaction: null,
+  reactionsRemaining: MAX_REACTIONS_PER_SEGMENT,
+  transcriptConsent: noTranscriptConsent,
+  timeRequest: null,
+  timeResponse: null,
+  modeRequest: null,
+  modeResponse: null,
+  keepInTouchConsent: noKeepInTouchConsent,
+  circleMembers: [],
   startChat: async () => null,
+  resumeRoom: async () => null,
+  followMergedRoom: async () => null,
   leaveRoom: async () => {},
-  sendMessage: async () => {},
-  advanceSegment: async () => {},
+  sendMessage: async () => 'failed',
+  skipSegment: async () => {},
+  expireSegment: async () => {},
+  shufflePrompt: async () => {},
+  requestTimeChange: async () => {},
+  respondTimeRequest: async () => {},
+  resumeSegment: async () => {},
+  requestModeChange: async () => {},
+  respondModeRequest: async () => {},
   submitReport: async () => {},
+  blockPeer: async () => {},
+  getQueueStatus: async () => null,
+  notifyTyping: () => {},
+  sendReaction: () => {},
+  consentTranscriptExport: async () => null,
+  getTranscriptConsent: async () => null,
+  fetchTranscript: async () => null,
+  submitFeedback: async () => {},
+  keepInTouch: async () => {},
+  getConnections: async () => [],
+  removeConnection: async () => {},
+  sendConnectionInvite: async () => null,
+  acceptConnectionInvite: async () => null,
+  declineConnectionInvite: async () => {},
+  createInviteRoom: async () => null,
+  getInviteRoom: async () => null,
+  joinInviteRoom: async () => null,
+  startCircle: async () => null,
+  createEvent: async () => null,
+  getEvent: async () => null,
+  joinEvent: async () => false,
+  leaveEvent: async () => {},
+  syncEvent: async () => null,
+  enterEventRoom: async () => null,
+  getEventSummary: async () => [],
   trackPresence: () => {},
 })
 
@@ -114,12 +444,38 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
   const [peerName, setPeerName] = useState<string | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
   const [healthStatus, setHealthStatus] = useState<HealthStatus>(defaultHealthStatus)
+  // Milliseconds to add to Date.now() to get the database clock
+  const [serverTimeOffset, setServerTimeOffset] = useState(0)
+  const [formats, setFormats] = useState<ConversationFormat[]>([CLASSIC_FORMAT])
+  const [peerReconnectedAt, setPeerReconnectedAt] = useState<number | null>(null)
+  const [peerTyping, setPeerTyping] = useState(false)
+  const [peerReaction, setPeerReaction] = useState<{ reaction: ListenerReaction; at: number } | null>(null)
+  const [reactionsSent, setReactionsSent] = useState(0)
+  const [transcriptConsent, setTranscriptConsent] = useState<TranscriptConsent>(noTranscriptConsent)
+  const [timeRequest, setTimeRequest] = useState<TimeRequest | null>(null)
+  const [timeResponse, setTimeResponse] = useState<TimeResponse | null>(null)
+  const [modeRequest, setModeRequest] = useState<ModeRequest | null>(null)
+  const [modeResponse, setModeResponse] = useState<ModeResponse | null>(null)
+  const [keepInTouchConsent, setKeepInTouchConsent] = useState<KeepInTouchConsent>(noKeepInTouchConsent)
+  const [circleMembers, setCircleMembers] = useState<CircleMember[]>([])
 
   const presenceChannelRef = useRef<RealtimeChannel | null>(null)
   const roomChannelRef = useRef<RealtimeChannel | null>(null)
   const currentModeRef = useRef<ChatMode | null>(null)
   const reconnectTimeoutRef = useRef<number | null>(null)
   const authInitializedRef = useRef(false)
+  // Set by resumeRoom so the next room subscription tells the peer we're back
+  const announceReconnectRef = useRef(false)
+  const peerLeftTimerRef = useRef<number | null>(null)
+  // Newest message created_at seen in the subscribed room, for gap-fill after resubscribe
+  const messageCursorRef = useRef<{ roomId: string; createdAt: string | null } | null>(null)
+  const lastTypingSentRef = useRef(0)
+  const peerTypingTimeoutRef = useRef<number | null>(null)
+  // Reactions received in the current segment, by sender seat
+  const peerReactionsRef = useRef(new Map<SeatRole, { count: number; lastAt: number }>())
+  const lastReactionSentRef = useRef(0)
+  // Who speaks in the current segment, for the broadcast handlers
+  const currentSpeakerRef = useRef<SeatRole | null>(null)
 
   // Update health status helper
   const updateHealth = useCallback((updates: Partial<HealthStatus>) => {
@@ -187,6 +543,219 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
     }
   }, [updateHealth])
 
+  // Measure the offset between the local and database clocks
+  useEffect(() => {
+    if (!connected) return
+
+    const measureOffset = async () => {
+      try {
+        const sentAt = Date.now()
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('server_now')
+        const receivedAt = Date.now()
+
+        if (error || !data) {
+          console.error('[Supabase] server_now error:', error)
+          return
+        }
+
+        // Assume the server read its clock halfway through the round trip
+        const offset = new Date(data as string).getTime() - (sentAt + receivedAt) / 2
+        setServerTimeOffset(offset)
+        console.log('[Supabase] Server clock offset (ms):', Math.round(offset))
+      } catch (error) {
+        console.error('[Supabase] measureOffset error:', error)
+      }
+    }
+
+    measureOffset()
+  }, [connected])
+
+  // Load conversation formats
+  useEffect(() => {
+    if (!connected) return
+
+    const fetchFormats = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('conversation_formats')
+          .select('*')
+          .order('sort_order', { ascending: true })
+
+        if (error) {
+          console.error('[Supabase] fetchFormats error:', error)
+          return
+        }
+
+        if (data && data.length > 0) {
+          setFormats(data as ConversationFormat[])
+        }
+      } catch (error) {
+        console.error('[Supabase] fetchFormats error:', error)
+      }
+    }
+
+    fetchFormats()
+  }, [connected])
+
+  // Heartbeat while in an open room so the reaper and matcher know we're still here
+  const heartbeatRoomId = currentRoom && currentRoom.status !== 'closed' ? currentRoom.id : null
+  useEffect(() => {
+    if (!heartbeatRoomId) return
+
+    const beat = async () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error } = await (supabase.rpc as any)('heartbeat', { p_room_id: heartbeatRoomId })
+        if (error) console.error('[Supabase] heartbeat error:', error)
+      } catch (error) {
+        console.error('[Supabase] heartbeat error:', error)
+      }
+    }
+
+    beat()
+    const interval = window.setInterval(beat, HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [heartbeatRoomId])
+
+  // Load export consent for the room, e.g. after a reload mid-handshake
+  const transcriptRoomId = currentRoom?.id ?? null
+  useEffect(() => {
+    setTranscriptConsent(noTranscriptConsent)
+    if (!transcriptRoomId) return
+
+    let cancelled = false
+    const loadConsent = async () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('get_transcript_consent', { p_room_id: transcriptRoomId })
+        if (error) {
+          console.error('[Supabase] get_transcript_consent error:', error)
+          return
+        }
+        const row = Array.isArray(data) ? data[0] : data
+        if (row && !cancelled) setTranscriptConsent({ mine: row.mine, peer: row.peer })
+      } catch (error) {
+        console.error('[Supabase] loadConsent error:', error)
+      }
+    }
+
+    loadConsent()
+    return () => {
+      cancelled = true
+    }
+  }, [transcriptRoomId])
+
+  // Same for keeping in touch
+  useEffect(() => {
+    setKeepInTouchConsent(noKeepInTouchConsent)
+    if (!transcriptRoomId) return
+
+    let cancelled = false
+    const loadConsent = async () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('get_keep_in_touch_consent', { p_room_id: transcriptRoomId })
+        if (error) {
+          console.error('[Supabase] get_keep_in_touch_consent error:', error)
+          return
+        }
+        const row = Array.isArray(data) ? data[0] : data
+        if (row && !cancelled) setKeepInTouchConsent({ mine: row.mine, peer: row.peer })
+      } catch (error) {
+        console.error('[Supabase] loadKeepInTouchConsent error:', error)
+      }
+    }
+
+    loadConsent()
+    return () => {
+      cancelled = true
+    }
+  }, [transcriptRoomId])
+
+  // Typing and reaction limits are per segment
+  const segmentKey = currentRoom ? `${currentRoom.id}:${currentRoom.round}:${currentRoom.current_segment}` : null
+  useEffect(() => {
+    peerReactionsRef.current.clear()
+    setReactionsSent(0)
+    setPeerTyping(false)
+    // The server only honours a time request in the segment it was made in
+    setTimeRequest(null)
+  }, [segmentKey])
+
+  // Drop a request nobody answered once the server would reject it anyway
+  const timeRequestId = timeRequest?.id ?? null
+  useEffect(() => {
+    if (timeRequestId === null) return
+    const timeout = window.setTimeout(() => {
+      setTimeRequest((prev) => (prev?.id === timeRequestId ? null : prev))
+    }, TIME_REQUEST_TTL_MS)
+    return () => clearTimeout(timeout)
+  }, [timeRequestId])
+
+  // A proposal only applies to the mode it was made from, and expires like time requests
+  const roomMode = currentRoom ? `${currentRoom.id}:${currentRoom.mode}` : null
+  useEffect(() => {
+    setModeRequest(null)
+  }, [roomMode])
+
+  const modeRequestId = modeRequest?.id ?? null
+  useEffect(() => {
+    if (modeRequestId === null) return
+    const timeout = window.setTimeout(() => {
+      setModeRequest((prev) => (prev?.id === modeRequestId ? null : prev))
+    }, TIME_REQUEST_TTL_MS)
+    return () => clearTimeout(timeout)
+  }, [modeRequestId])
+
+  // A circle's turns are its format's template repeated for each taken seat
+  const circleSeatsKey = currentRoom?.circle_size ? currentRoom.circle_seats.join(',') : null
+  const currentFormat = useMemo(() => {
+    const formatId = currentRoom?.format_id ?? DEFAULT_FORMAT_ID
+    const format = formats.find((f) => f.id === formatId) ?? CLASSIC_FORMAT
+    return circleSeatsKey === null ? format : expandCircleFormat(format, circleSeatsKey.split(',') as SeatRole[])
+  }, [formats, currentRoom?.format_id, circleSeatsKey])
+
+  useEffect(() => {
+    currentSpeakerRef.current = getFormatSegment(currentFormat, currentRoom?.current_segment ?? 0)?.speaker ?? null
+  }, [currentFormat, currentRoom?.current_segment])
+
+  // Reload who sits where whenever a circle's seats change
+  const circleRoomId = circleSeatsKey !== null ? currentRoom?.id ?? null : null
+  useEffect(() => {
+    setCircleMembers([])
+    if (!circleRoomId) return
+
+    let cancelled = false
+    const loadMembers = async () => {
+      const { data, error } = await supabase
+        .from('room_members')
+        .select('user_id, role, display_name')
+        .eq('room_id', circleRoomId)
+
+      if (error) {
+        console.error('[Supabase] loadCircleMembers error:', error)
+        return
+      }
+      if (cancelled) return
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const rows = (data as any[] | null) ?? []
+      // Turn order, leaving out anyone who has already left their seat
+      const seats = circleSeatsKey!.split(',')
+      setCircleMembers(
+        rows
+          .filter((row) => seats.includes(row.role))
+          .sort((a, b) => seats.indexOf(a.role) - seats.indexOf(b.role))
+          .map((row) => ({ userId: row.user_id, role: row.role as SeatRole, displayName: row.display_name }))
+      )
+    }
+
+    loadMembers()
+    return () => {
+      cancelled = true
+    }
+  }, [circleRoomId, circleSeatsKey])
+
   // Setup presence channel with reconnect logic
   useEffect(() => {
     if (!connected || !userId) return
@@ -264,19 +833,114 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
     }
   }, [])
 
+  // Merge fetched or realtime messages into state in time order, skipping ones we already have
+  const mergeMessages = useCallback((roomId: string, incoming: Message[]) => {
+    if (incoming.length === 0) return
+
+    const cursor = messageCursorRef.current
+    if (cursor?.roomId === roomId) {
+      for (const m of incoming) {
+        if (!cursor.createdAt || new Date(m.created_at) > new Date(cursor.createdAt)) {
+          cursor.createdAt = m.created_at
+        }
+      }
+    }
+
+    setMessages((prev) => {
+      const known = new Set(prev.map((m) => m.id))
+      const fresh = incoming.filter((m) => !known.has(m.id))
+      if (fresh.length === 0) return prev
+      return [...prev, ...fresh].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    })
+  }, [])
+
   // Subscribe to room with reconnect logic
   const subscribeToRoom = useCallback(
     (roomId: string) => {
       if (roomChannelRef.current) {
         roomChannelRef.current.unsubscribe()
       }
+      if (peerLeftTimerRef.current) {
+        clearTimeout(peerLeftTimerRef.current)
+        peerLeftTimerRef.current = null
+      }
 
       updateHealth({
         roomChannel: 'connecting',
         currentRoomId: roomId,
       })
 
-      const channel = supabase.channel(`room:${roomId}`)
+      const channel = supabase.channel(`room:${roomId}`, {
+        config: { presence: { key: userId ?? undefined } },
+      })
+
+      if (messageCursorRef.current?.roomId !== roomId) {
+        messageCursorRef.current = { roomId, createdAt: null }
+      }
+
+      // Everything on first subscribe, then only what arrived since the cursor.
+      // gte rather than gt so same-timestamp messages aren't skipped; merge drops repeats.
+      const fillMessages = async () => {
+        try {
+          const since = messageCursorRef.current?.roomId === roomId ? messageCursorRef.current.createdAt : null
+          let query = supabase.from('messages').select('*').eq('room_id', roomId)
+          if (since) query = query.gte('created_at', since)
+          const { data, error } = await query.order('created_at', { ascending: true })
+
+          if (error) {
+            console.error('[Supabase] fillMessages error:', error)
+            return
+          }
+
+          mergeMessages(roomId, (data as Message[] | null) ?? [])
+        } catch (error) {
+          console.error('[Supabase] fillMessages error:', error)
+        }
+      }
+
+      // Everyone who has been present; losing any of them starts the grace period
+      let seenPeers = new Set<string>()
+      let seatCount: number | null = null
+
+      const presentPeers = () => Object.keys(channel.presenceState()).filter((key) => key !== userId)
+
+      // Once a circle has dropped seats, only the people still here count
+      const forgetDepartedPeers = () => {
+        seenPeers = new Set(presentPeers())
+        if (peerLeftTimerRef.current) {
+          clearTimeout(peerLeftTimerRef.current)
+          peerLeftTimerRef.current = null
+        }
+      }
+
+      const closeIfPeerGone = async () => {
+        try {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const { data, error } = await (supabase.rpc as any)('close_room_if_peer_gone', { p_room_id: roomId })
+          if (error) {
+            console.error('[Supabase] close_room_if_peer_gone error:', error)
+            return
+          }
+
+          // A circle that still has two members comes back matched, with fewer seats
+          const updatedRoom = (Array.isArray(data) ? data[0] : data) as Room | undefined
+          if (updatedRoom) {
+            peerLeftTimerRef.current = null
+            if (updatedRoom.status === 'closed') {
+              console.log('[Supabase] Closed room after peer left')
+            } else {
+              console.log('[Supabase] Dropped the seats of members who left')
+              forgetDepartedPeers()
+            }
+            setCurrentRoom((prev) => (prev && prev.id === updatedRoom.id ? updatedRoom : prev))
+          } else {
+            // Their heartbeat is still fresh; check again while presence stays gone
+            peerLeftTimerRef.current = window.setTimeout(closeIfPeerGone, PEER_LEFT_RETRY_MS)
+          }
+        } catch (error) {
+          console.error('[Supabase] closeIfPeerGone error:', error)
+        }
+      }
 
       channel
         .on(
@@ -293,9 +957,19 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
             setCurrentRoom(updatedRoom)
             updateHealth({ currentRoomStatus: updatedRoom.status })
 
+            // Another member's check (or the server) dropped seats; stop waiting on whoever left
+            if (updatedRoom.circle_size && seatCount !== null && updatedRoom.circle_seats.length < seatCount) {
+              forgetDepartedPeers()
+            }
+            seatCount = updatedRoom.circle_seats.length
+
             if (updatedRoom.status === 'closed') {
               console.log('[Supabase] Room closed via realtime')
-              setCurrentRoom(null)
+              // The closed row stays in currentRoom so the app can run its peer-left flow
+              if (peerLeftTimerRef.current) {
+                clearTimeout(peerLeftTimerRef.current)
+                peerLeftTimerRef.current = null
+              }
               setCurrentRole(null)
               setPeerName(null)
               setMessages([])
@@ -317,48 +991,149 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
             filter: `room_id=eq.${roomId}`,
           },
           (payload) => {
-            const newMessage = payload.new as Message
-            setMessages((prev) => {
-              // Avoid duplicates
-              if (prev.some((m) => m.id === newMessage.id)) return prev
-              return [...prev, newMessage]
-            })
+            mergeMessages(roomId, [payload.new as Message])
           }
         )
-        .on(
-          'postgres_changes',
-          {
-            event: 'DELETE',
-            schema: 'public',
-            table: 'room_members',
-            filter: `room_id=eq.${roomId}`,
-          },
-          () => {
-            console.log('[Supabase] Room member deleted - peer may have left')
+        .on('broadcast', { event: 'member_reconnected' }, () => {
+          console.log('[Supabase] Peer reconnected to the room')
+          setPeerReconnectedAt(Date.now())
+        })
+        .on('broadcast', { event: 'transcript_consent' }, () => {
+          setTranscriptConsent((prev) => ({ ...prev, peer: true }))
+        })
+        .on('broadcast', { event: 'keep_in_touch' }, () => {
+          setKeepInTouchConsent((prev) => ({ ...prev, peer: true }))
+        })
+        .on('broadcast', { event: 'typing' }, () => {
+          setPeerTyping(true)
+          if (peerTypingTimeoutRef.current) clearTimeout(peerTypingTimeoutRef.current)
+          peerTypingTimeoutRef.current = window.setTimeout(() => setPeerTyping(false), TYPING_TIMEOUT_MS)
+        })
+        .on('broadcast', { event: 'reaction' }, ({ payload }) => {
+          const info = getListenerReaction(payload?.reaction)
+          const role = payload?.role as SeatRole | undefined
+          // Only listeners react, each within the same limits the sender applies
+          if (!info || typeof role !== 'string' || role === currentSpeakerRef.current) return
+          const now = Date.now()
+          const sent = peerReactionsRef.current.get(role) ?? { count: 0, lastAt: 0 }
+          if (sent.count >= MAX_REACTIONS_PER_SEGMENT || now - sent.lastAt < REACTION_THROTTLE_MS) return
+          peerReactionsRef.current.set(role, { count: sent.count + 1, lastAt: now })
+          setPeerReaction({ reaction: info.id, at: now })
+        })
+        .on('broadcast', { event: 'time_request' }, ({ payload }) => {
+          if (typeof payload?.id !== 'number' || !['extend', 'pause', 'resume'].includes(payload.kind)) return
+          setTimeRequest({ id: payload.id, kind: payload.kind, mine: false })
+        })
+        .on('broadcast', { event: 'time_response' }, ({ payload }) => {
+          if (typeof payload?.id !== 'number') return
+          setTimeRequest((prev) => (prev?.id === payload.id ? null : prev))
+          setTimeResponse({ kind: payload.kind, accepted: !!payload.accepted, at: Date.now() })
+        })
+        .on('broadcast', { event: 'mode_request' }, ({ payload }) => {
+          if (typeof payload?.id !== 'number' || !ROOM_MODES.includes(payload.mode)) return
+          setModeRequest({ id: payload.id, mode: payload.mode, mine: false })
+        })
+        .on('broadcast', { event: 'mode_response' }, ({ payload }) => {
+          if (typeof payload?.id !== 'number') return
+          setModeRequest((prev) => (prev?.id === payload.id ? null : prev))
+          setModeResponse({ mode: payload.mode, accepted: !!payload.accepted, at: Date.now() })
+        })
+        .on('presence', { event: 'sync' }, () => {
+          const present = presentPeers()
+          present.forEach((key) => seenPeers.add(key))
+          if (present.length === seenPeers.size) {
+            if (peerLeftTimerRef.current) {
+              clearTimeout(peerLeftTimerRef.current)
+              peerLeftTimerRef.current = null
+            }
+          } else if (!peerLeftTimerRef.current) {
+            console.log('[Supabase] Peer presence lost, waiting for grace period')
+            peerLeftTimerRef.current = window.setTimeout(closeIfPeerGone, PEER_LEFT_GRACE_MS)
           }
-        )
+        })
         .subscribe((status) => {
           if (status === 'SUBSCRIBED') {
             updateHealth({ roomChannel: 'connected' })
+            channel.track({ online_at: new Date().toISOString() })
+            fillMessages()
+            if (announceReconnectRef.current) {
+              announceReconnectRef.current = false
+              channel.send({ type: 'broadcast', event: 'member_reconnected', payload: {} })
+            }
           } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
             updateHealth({ roomChannel: 'error' })
-            // Attempt reconnect
-            setTimeout(() => {
-              if (currentRoom?.id === roomId) {
-                console.log('[Supabase] Reconnecting room channel...')
-                subscribeToRoom(roomId)
-              }
+            // Attempt reconnect, unless this channel was replaced or dropped on purpose
+            setTimeout(async () => {
+              if (roomChannelRef.current !== channel) return
+              console.log('[Supabase] Reconnecting room channel...')
+              // Remove it fully so supabase.channel() hands back a fresh channel for the topic
+              await supabase.removeChannel(channel)
+              if (roomChannelRef.current === channel) subscribeToRoom(roomId)
             }, 3000)
           }
         })
 
       roomChannelRef.current = channel
     },
-    [updateHealth, currentRoom?.id]
+    [updateHealth, mergeMessages, userId]
+  )
+
+  // Load the room a matchmaking-shaped RPC row points at, subscribe to it and
+  // return it as a MatchResult
+  const enterRoom = useCallback(
+    async (data: unknown): Promise<MatchResult | null> => {
+      if (!data || (Array.isArray(data) && data.length === 0)) {
+        console.error('[Supabase] No result from matchmaking')
+        return null
+      }
+
+      // Handle both array and single object response
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = (Array.isArray(data) ? data[0] : data) as any
+      console.log('[Supabase] Matchmaking result:', result)
+
+      // Fetch the room
+      const { data: roomData } = await supabase
+        .from('rooms')
+        .select('*')
+        .eq('id', result.room_id)
+        .single()
+
+      if (roomData) {
+        const room = roomData as Room
+        setCurrentRoom(room)
+        setCurrentRole(result.role as UserRole)
+        setPeerName(result.peer_name)
+        setMessages([])
+        updateHealth({
+          currentRoomId: room.id,
+          currentRoomStatus: room.status,
+        })
+
+        // Subscribe to room changes (for both waiting and matched states)
+        subscribeToRoom(result.room_id)
+        trackPresence(result.chat_mode as ChatMode)
+      }
+
+      return {
+        roomId: result.room_id,
+        role: result.role as UserRole,
+        matched: result.matched,
+        peerName: result.peer_name,
+        chatMode: result.chat_mode as ChatMode,
+        sharedTags: result.shared_tags ?? [],
+        circleSize: (roomData as Room | null)?.circle_size ?? null,
+      }
+    },
+    [subscribeToRoom, trackPresence, updateHealth]
   )
 
   const startChat = useCallback(
-    async (mode: ChatMode, displayName: string): Promise<MatchResult | null> => {
+    async (
+      mode: ChatMode,
+      displayName: string,
+      preferences: MatchPreferences = DEFAULT_MATCH_PREFERENCES
+    ): Promise<MatchResult | null> => {
       if (!userId) {
         console.error('[Supabase] Cannot start chat: not authenticated')
         return null
@@ -370,6 +1145,10 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
         const { data, error } = await (supabase.rpc as any)('match_or_create_room', {
           p_mode: mode,
           p_display_name: displayName,
+          p_format_id: preferences.formatId,
+          p_interest_tags: preferences.interestTags,
+          p_mode_widen_after_sec: preferences.modeWidenAfterSec,
+          p_talk_preference: preferences.talkPreference,
         })
 
         if (error) {
@@ -377,64 +1156,110 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
           return null
         }
 
-        if (!data || (Array.isArray(data) && data.length === 0)) {
-          console.error('[Supabase] No result from matchmaking')
-          return null
-        }
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] startChat error:', error)
+        return null
+      }
+    },
+    [userId, enterRoom]
+  )
 
-        // Handle both array and single object response
-        const result = Array.isArray(data) ? data[0] : data
-        console.log('[Supabase] Matchmaking result:', result)
+  const followMergedRoom = useCallback(
+    async (closedRoomId: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('get_merged_room', { p_room_id: closedRoomId })
 
-        // Fetch the room
-        const { data: roomData } = await supabase
-          .from('rooms')
-          .select('*')
-          .eq('id', result.room_id)
-          .single()
-
-        if (roomData) {
-          const room = roomData as Room
-          setCurrentRoom(room)
-          setCurrentRole(result.role as UserRole)
-          setPeerName(result.peer_name)
-          setMessages([])
-          updateHealth({
-            currentRoomId: room.id,
-            currentRoomStatus: room.status,
-          })
-
-          // Subscribe to room changes (for both waiting and matched states)
-          subscribeToRoom(result.room_id)
-          trackPresence(result.chat_mode as ChatMode)
+        if (error) {
+          console.error('[Supabase] get_merged_room error:', error)
+          return null
         }
 
-        return {
-          roomId: result.room_id,
-          role: result.role as UserRole,
-          matched: result.matched,
-          peerName: result.peer_name,
-          chatMode: result.chat_mode as ChatMode,
-        }
+        return await enterRoom(data)
       } catch (error) {
-        console.error('[Supabase] startChat error:', error)
+        console.error('[Supabase] followMergedRoom error:', error)
         return null
       }
     },
-    [userId, subscribeToRoom, trackPresence, updateHealth]
+    [enterRoom]
   )
 
-  const leaveRoom = useCallback(async () => {
-    if (!currentRoom) return
+  // Reconnect to the room we were in before a page reload, if it is still open
+  const resumeRoom = useCallback(async (): Promise<ResumeResult | null> => {
+    if (!userId) return null
 
     try {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase.rpc as any)('leave_room', { p_room_id: currentRoom.id })
+      const { data, error } = await (supabase.rpc as any)('resume_room')
+
+      if (error) {
+        console.error('[Supabase] resume_room error:', error)
+        return null
+      }
+
+      const result = Array.isArray(data) ? data[0] : data
+      if (!result) return null
+
+      const { data: roomData } = await supabase.from('rooms').select('*').eq('id', result.room_id).single()
+
+      if (!roomData) return null
+
+      const room = roomData as Room
+      console.log('[Supabase] Resuming room:', room.id, room.status)
+      setCurrentRoom(room)
+      setCurrentRole(result.role as UserRole)
+      setPeerName(result.peer_name)
+      // History loads when the room channel subscribes
+      setMessages([])
+      updateHealth({
+        currentRoomId: room.id,
+        currentRoomStatus: room.status,
+      })
+
+      announceReconnectRef.current = room.status === 'matched'
+      subscribeToRoom(room.id)
+      trackPresence(room.mode)
+
+      return {
+        roomId: room.id,
+        role: result.role as UserRole,
+        matched: room.status === 'matched',
+        peerName: result.peer_name,
+        chatMode: room.mode,
+        sharedTags: room.shared_tags ?? [],
+        circleSize: room.circle_size,
+        displayName: result.display_name ?? 'User',
+        preferences: {
+          // The matcher may have switched the room to a format nobody picks directly
+          formatId: formats.find((f) => f.id === room.format_id)?.talker_role ? DEFAULT_FORMAT_ID : room.format_id,
+          interestTags: result.interest_tags ?? [],
+          modeWidenAfterSec: room.mode_widen_after_sec,
+          talkPreference: (result.talk_preference as TalkPreference | null) ?? 'either',
+        },
+      }
+    } catch (error) {
+      console.error('[Supabase] resumeRoom error:', error)
+      return null
+    }
+  }, [userId, formats, subscribeToRoom, trackPresence, updateHealth])
+
+  const leaveRoom = useCallback(async () => {
+    if (!currentRoom) return
 
+    try {
+      // Drop the room channel first so our own close isn't seen as the peer leaving
       if (roomChannelRef.current) {
         roomChannelRef.current.unsubscribe()
         roomChannelRef.current = null
       }
+      if (peerLeftTimerRef.current) {
+        clearTimeout(peerLeftTimerRef.current)
+        peerLeftTimerRef.current = null
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase.rpc as any)('leave_room', { p_room_id: currentRoom.id })
 
       setCurrentRoom(null)
       setCurrentRole(null)
@@ -452,48 +1277,250 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
   }, [currentRoom, trackPresence, updateHealth])
 
   const sendMessage = useCallback(
-    async (text: string, displayName: string) => {
-      if (!currentRoom || !userId) return
+    async (text: string, displayName: string, clientId: string): Promise<SendMessageError | null> => {
+      if (!currentRoom || !userId) return 'failed'
 
       try {
+        // Goes through the RPC so the server can enforce whose turn it is
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const { error } = await (supabase.from('messages') as any).insert({
-          room_id: currentRoom.id,
-          user_id: userId,
-          display_name: displayName,
-          text,
+        const { error } = await (supabase.rpc as any)('send_message', {
+          p_room_id: currentRoom.id,
+          p_text: text,
+          p_display_name: displayName,
+          p_client_id: clientId,
         })
 
         if (error) {
           console.error('[Supabase] sendMessage error:', error)
+          return SEND_MESSAGE_ERRORS.find((code) => code === error.hint) ?? 'failed'
         }
+        return null
       } catch (error) {
         console.error('[Supabase] sendMessage error:', error)
+        return 'failed'
       }
     },
     [currentRoom, userId]
   )
 
-  const advanceSegment = useCallback(async () => {
-    if (!currentRoom || currentRole !== 'user1') return
+  // Apply the room row returned by a segment RPC without waiting for realtime
+  const applyRoomResult = useCallback(
+    (data: unknown) => {
+      const room = (Array.isArray(data) ? data[0] : data) as Room | undefined
+      if (!room) return
+      setCurrentRoom((prev) => (prev && prev.id === room.id ? room : prev))
+      updateHealth({ currentRoomStatus: room.status })
+    },
+    [updateHealth]
+  )
 
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase.rpc as any)('advance_segment', {
-        p_room_id: currentRoom.id,
-      })
+  const skipSegment = useCallback(
+    async (expectedSegment: number) => {
+      if (!currentRoom) return
 
-      if (error) {
-        console.error('[Supabase] advanceSegment error:', error)
-      }
-    } catch (error) {
-      console.error('[Supabase] advanceSegment error:', error)
-    }
-  }, [currentRoom, currentRole])
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('advance_segment', {
+          p_room_id: currentRoom.id,
+          p_expected_segment: expectedSegment,
+        })
 
-  const submitReport = useCallback(async (reasons: string[], details: string) => {
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        if (error) {
+          console.error('[Supabase] skipSegment error:', error)
+          return
+        }
+
+        applyRoomResult(data)
+      } catch (error) {
+        console.error('[Supabase] skipSegment error:', error)
+      }
+    },
+    [currentRoom, applyRoomResult]
+  )
+
+  const expireSegment = useCallback(
+    async (expectedSegment: number) => {
+      if (!currentRoom) return
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('expire_segment', {
+          p_room_id: currentRoom.id,
+          p_expected_segment: expectedSegment,
+        })
+
+        if (error) {
+          console.error('[Supabase] expireSegment error:', error)
+          return
+        }
+
+        applyRoomResult(data)
+      } catch (error) {
+        console.error('[Supabase] expireSegment error:', error)
+      }
+    },
+    [currentRoom, applyRoomResult]
+  )
+
+  const shufflePrompt = useCallback(async () => {
+    if (!currentRoom) return
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('shuffle_prompt', {
+        p_room_id: currentRoom.id,
+      })
+
+      if (error) {
+        console.error('[Supabase] shufflePrompt error:', error)
+        return
+      }
+
+      applyRoomResult(data)
+    } catch (error) {
+      console.error('[Supabase] shufflePrompt error:', error)
+    }
+  }, [currentRoom, applyRoomResult])
+
+  const requestTimeChange = useCallback(
+    async (kind: TimeRequestKind) => {
+      if (!currentRoom) return
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('request_time_change', {
+          p_room_id: currentRoom.id,
+          p_kind: kind,
+        })
+
+        if (error) {
+          console.error('[Supabase] requestTimeChange error:', error)
+          return
+        }
+
+        const id = data as number
+        setTimeRequest({ id, kind, mine: true })
+        roomChannelRef.current?.send({ type: 'broadcast', event: 'time_request', payload: { id, kind } })
+      } catch (error) {
+        console.error('[Supabase] requestTimeChange error:', error)
+      }
+    },
+    [currentRoom]
+  )
+
+  const respondTimeRequest = useCallback(
+    async (accept: boolean) => {
+      if (!currentRoom || !timeRequest || timeRequest.mine) return
+      const request = timeRequest
+      setTimeRequest(null)
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('respond_time_change', {
+          p_room_id: currentRoom.id,
+          p_request_id: request.id,
+          p_accept: accept,
+        })
+
+        if (error) {
+          console.error('[Supabase] respondTimeRequest error:', error)
+          return
+        }
+
+        applyRoomResult(data)
+        roomChannelRef.current?.send({
+          type: 'broadcast',
+          event: 'time_response',
+          payload: { id: request.id, kind: request.kind, accepted: accept },
+        })
+      } catch (error) {
+        console.error('[Supabase] respondTimeRequest error:', error)
+      }
+    },
+    [currentRoom, timeRequest, applyRoomResult]
+  )
+
+  const resumeSegment = useCallback(async () => {
+    if (!currentRoom) return
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('resume_segment', {
+        p_room_id: currentRoom.id,
+      })
+
+      if (error) {
+        console.error('[Supabase] resumeSegment error:', error)
+        return
+      }
+
+      applyRoomResult(data)
+    } catch (error) {
+      console.error('[Supabase] resumeSegment error:', error)
+    }
+  }, [currentRoom, applyRoomResult])
+
+  const requestModeChange = useCallback(
+    async (mode: RoomMode) => {
+      if (!currentRoom) return
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('request_mode_change', {
+          p_room_id: currentRoom.id,
+          p_mode: mode,
+        })
+
+        if (error) {
+          console.error('[Supabase] requestModeChange error:', error)
+          return
+        }
+
+        const id = data as number
+        setModeRequest({ id, mode, mine: true })
+        roomChannelRef.current?.send({ type: 'broadcast', event: 'mode_request', payload: { id, mode } })
+      } catch (error) {
+        console.error('[Supabase] requestModeChange error:', error)
+      }
+    },
+    [currentRoom]
+  )
+
+  const respondModeRequest = useCallback(
+    async (accept: boolean) => {
+      if (!currentRoom || !modeRequest || modeRequest.mine) return
+      const request = modeRequest
+      setModeRequest(null)
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('respond_mode_change', {
+          p_room_id: currentRoom.id,
+          p_request_id: request.id,
+          p_accept: accept,
+        })
+
+        if (error) {
+          console.error('[Supabase] respondModeRequest error:', error)
+          return
+        }
+
+        applyRoomResult(data)
+        roomChannelRef.current?.send({
+          type: 'broadcast',
+          event: 'mode_response',
+          payload: { id: request.id, mode: request.mode, accepted: accept },
+        })
+      } catch (error) {
+        console.error('[Supabase] respondModeRequest error:', error)
+      }
+    },
+    [currentRoom, modeRequest, applyRoomResult]
+  )
+
+  const submitReport = useCallback(async (reasons: string[], details: string) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const { error } = await (supabase.from('reports') as any).insert({
         reasons,
         details,
@@ -509,6 +1536,510 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
     }
   }, [])
 
+  const blockPeer = useCallback(async () => {
+    if (!currentRoom) return
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.rpc as any)('block_room_peer', {
+        p_room_id: currentRoom.id,
+      })
+
+      if (error) {
+        console.error('[Supabase] blockPeer error:', error)
+        throw error
+      }
+    } catch (error) {
+      console.error('[Supabase] blockPeer error:', error)
+      throw error
+    }
+  }, [currentRoom])
+
+  const getQueueStatus = useCallback(async (): Promise<QueueStatus | null> => {
+    if (!currentRoom || currentRoom.status !== 'waiting') return null
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('get_queue_status', {
+        p_room_id: currentRoom.id,
+      })
+
+      if (error) {
+        console.error('[Supabase] getQueueStatus error:', error)
+        return null
+      }
+
+      const row = Array.isArray(data) ? data[0] : data
+      if (!row) return null
+
+      return {
+        position: row.queue_position,
+        waitingCount: row.waiting_count,
+        waitedSec: row.waited_sec,
+        estimatedWaitSec: row.estimated_wait_sec,
+      }
+    } catch (error) {
+      console.error('[Supabase] getQueueStatus error:', error)
+      return null
+    }
+  }, [currentRoom])
+
+  // Broadcast-only: tells the peer we're composing, throttled
+  const notifyTyping = useCallback(() => {
+    const channel = roomChannelRef.current
+    if (!channel || Date.now() - lastTypingSentRef.current < TYPING_THROTTLE_MS) return
+    lastTypingSentRef.current = Date.now()
+    channel.send({ type: 'broadcast', event: 'typing', payload: {} })
+  }, [])
+
+  // Broadcast-only listener reaction, limited per segment and throttled
+  const sendReaction = useCallback(
+    (reaction: ListenerReaction) => {
+      const channel = roomChannelRef.current
+      if (!channel || !currentRole || reactionsSent >= MAX_REACTIONS_PER_SEGMENT) return
+      if (Date.now() - lastReactionSentRef.current < REACTION_THROTTLE_MS) return
+      lastReactionSentRef.current = Date.now()
+      setReactionsSent((n) => n + 1)
+      channel.send({ type: 'broadcast', event: 'reaction', payload: { reaction, role: currentRole } })
+    },
+    [currentRole, reactionsSent]
+  )
+
+  const consentTranscriptExport = useCallback(
+    async (roomId?: string): Promise<TranscriptConsent | null> => {
+      const targetRoomId = roomId ?? currentRoom?.id
+      if (!targetRoomId) return null
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('consent_transcript_export', {
+          p_room_id: targetRoomId,
+        })
+
+        if (error) {
+          console.error('[Supabase] consentTranscriptExport error:', error)
+          return null
+        }
+
+        const row = Array.isArray(data) ? data[0] : data
+        if (!row) return null
+
+        const consent = { mine: row.mine, peer: row.peer }
+        // After the session there is no room channel to tell the peer on
+        if (targetRoomId === currentRoom?.id) {
+          setTranscriptConsent(consent)
+          roomChannelRef.current?.send({ type: 'broadcast', event: 'transcript_consent', payload: {} })
+        }
+        return consent
+      } catch (error) {
+        console.error('[Supabase] consentTranscriptExport error:', error)
+        return null
+      }
+    },
+    [currentRoom]
+  )
+
+  const getTranscriptConsent = useCallback(async (roomId: string): Promise<TranscriptConsent | null> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('get_transcript_consent', { p_room_id: roomId })
+
+      if (error) {
+        console.error('[Supabase] get_transcript_consent error:', error)
+        return null
+      }
+
+      const row = Array.isArray(data) ? data[0] : data
+      return row ? { mine: row.mine, peer: row.peer } : null
+    } catch (error) {
+      console.error('[Supabase] getTranscriptConsent error:', error)
+      return null
+    }
+  }, [])
+
+  const fetchTranscript = useCallback(
+    async (roomId?: string): Promise<Transcript | null> => {
+      const targetRoomId = roomId ?? currentRoom?.id
+      if (!targetRoomId) return null
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('get_room_transcript', {
+          p_room_id: targetRoomId,
+        })
+
+        if (error) {
+          console.error('[Supabase] fetchTranscript error:', error)
+          return null
+        }
+
+        return data as Transcript
+      } catch (error) {
+        console.error('[Supabase] fetchTranscript error:', error)
+        return null
+      }
+    },
+    [currentRoom]
+  )
+
+  const submitFeedback = useCallback(async (roomId: string, feedback: RoomFeedback) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.rpc as any)('submit_room_feedback', {
+        p_room_id: roomId,
+        p_rating: feedback.rating,
+        p_felt_heard: feedback.feltHeard,
+        p_stayed_on_turn: feedback.stayedOnTurn,
+        p_comment: feedback.comment,
+      })
+
+      if (error) {
+        console.error('[Supabase] submitFeedback error:', error)
+        throw error
+      }
+    } catch (error) {
+      console.error('[Supabase] submitFeedback error:', error)
+      throw error
+    }
+  }, [])
+
+  const keepInTouch = useCallback(
+    async (roomId: string, displayName: string) => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('keep_in_touch', {
+          p_room_id: roomId,
+          p_display_name: displayName,
+        })
+
+        if (error) {
+          console.error('[Supabase] keepInTouch error:', error)
+          return
+        }
+
+        // Only the room we're still in has a channel and consent state to update
+        if (currentRoom?.id !== roomId) return
+        const row = Array.isArray(data) ? data[0] : data
+        if (row) setKeepInTouchConsent({ mine: row.mine, peer: row.peer })
+        roomChannelRef.current?.send({ type: 'broadcast', event: 'keep_in_touch', payload: {} })
+      } catch (error) {
+        console.error('[Supabase] keepInTouch error:', error)
+      }
+    },
+    [currentRoom]
+  )
+
+  const getConnections = useCallback(async (): Promise<Connection[]> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('get_connections')
+
+      if (error) {
+        console.error('[Supabase] getConnections error:', error)
+        return []
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return ((data as any[] | null) ?? []).map((row) => ({
+        id: row.connection_id,
+        peerName: row.peer_name,
+        connectedAt: row.connected_at,
+        incomingInviteId: row.incoming_invite_id,
+        incomingInviteMode: row.incoming_invite_mode,
+        outgoingInviteId: row.outgoing_invite_id,
+      }))
+    } catch (error) {
+      console.error('[Supabase] getConnections error:', error)
+      return []
+    }
+  }, [])
+
+  const removeConnection = useCallback(async (connectionId: string) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.rpc as any)('remove_connection', { p_connection_id: connectionId })
+      if (error) console.error('[Supabase] removeConnection error:', error)
+    } catch (error) {
+      console.error('[Supabase] removeConnection error:', error)
+    }
+  }, [])
+
+  const sendConnectionInvite = useCallback(
+    async (connectionId: string, mode: RoomMode, displayName: string, formatId: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('send_connection_invite', {
+          p_connection_id: connectionId,
+          p_mode: mode,
+          p_display_name: displayName,
+          p_format_id: formatId,
+        })
+
+        if (error) {
+          console.error('[Supabase] sendConnectionInvite error:', error)
+          return null
+        }
+
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] sendConnectionInvite error:', error)
+        return null
+      }
+    },
+    [enterRoom]
+  )
+
+  const acceptConnectionInvite = useCallback(
+    async (inviteId: string, displayName: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('accept_connection_invite', {
+          p_invite_id: inviteId,
+          p_display_name: displayName,
+        })
+
+        if (error) {
+          console.error('[Supabase] acceptConnectionInvite error:', error)
+          return null
+        }
+
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] acceptConnectionInvite error:', error)
+        return null
+      }
+    },
+    [enterRoom]
+  )
+
+  const declineConnectionInvite = useCallback(async (inviteId: string) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.rpc as any)('decline_connection_invite', { p_invite_id: inviteId })
+      if (error) console.error('[Supabase] declineConnectionInvite error:', error)
+    } catch (error) {
+      console.error('[Supabase] declineConnectionInvite error:', error)
+    }
+  }, [])
+
+  const createInviteRoom = useCallback(
+    async (mode: RoomMode, displayName: string, formatId: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('create_invite_room', {
+          p_mode: mode,
+          p_display_name: displayName,
+          p_format_id: formatId,
+        })
+
+        if (error) {
+          console.error('[Supabase] createInviteRoom error:', error)
+          return null
+        }
+
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] createInviteRoom error:', error)
+        return null
+      }
+    },
+    [enterRoom]
+  )
+
+  const getInviteRoom = useCallback(async (code: string): Promise<InviteRoom | null> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('get_invite_room', { p_code: code })
+
+      if (error) {
+        console.error('[Supabase] getInviteRoom error:', error)
+        return null
+      }
+
+      const row = Array.isArray(data) ? data[0] : data
+      if (!row) return null
+      return {
+        hostName: row.host_name,
+        mode: row.mode as RoomMode,
+        formatId: row.format_id,
+        isOpen: row.is_open,
+      }
+    } catch (error) {
+      console.error('[Supabase] getInviteRoom error:', error)
+      return null
+    }
+  }, [])
+
+  const joinInviteRoom = useCallback(
+    async (code: string, displayName: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('join_invite_room', {
+          p_code: code,
+          p_display_name: displayName,
+        })
+
+        if (error) {
+          console.error('[Supabase] joinInviteRoom error:', error)
+          return null
+        }
+
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] joinInviteRoom error:', error)
+        return null
+      }
+    },
+    [enterRoom]
+  )
+
+  const startCircle = useCallback(
+    async (mode: RoomMode, size: number, displayName: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('join_circle', {
+          p_mode: mode,
+          p_display_name: displayName,
+          p_size: size,
+        })
+
+        if (error) {
+          console.error('[Supabase] startCircle error:', error)
+          return null
+        }
+
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] startCircle error:', error)
+        return null
+      }
+    },
+    [enterRoom]
+  )
+
+  const createEvent = useCallback(async (event: NewSpeedEvent, displayName: string): Promise<string | null> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('create_event', {
+        p_title: event.title,
+        p_mode: event.mode,
+        p_starts_at: event.startsAt.toISOString(),
+        p_round_sec: event.roundSec,
+        p_break_sec: event.breakSec,
+        p_round_count: event.roundCount,
+        p_display_name: displayName,
+      })
+
+      if (error) {
+        console.error('[Supabase] createEvent error:', error)
+        return null
+      }
+
+      return (data as string | null) ?? null
+    } catch (error) {
+      console.error('[Supabase] createEvent error:', error)
+      return null
+    }
+  }, [])
+
+  const getEvent = useCallback(async (code: string): Promise<SpeedEvent | null> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('get_event', { p_code: code })
+
+      if (error) {
+        console.error('[Supabase] getEvent error:', error)
+        return null
+      }
+
+      return toSpeedEvent(code, data)
+    } catch (error) {
+      console.error('[Supabase] getEvent error:', error)
+      return null
+    }
+  }, [])
+
+  const joinEvent = useCallback(async (code: string, displayName: string): Promise<boolean> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.rpc as any)('join_event', { p_code: code, p_display_name: displayName })
+
+      if (error) {
+        console.error('[Supabase] joinEvent error:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('[Supabase] joinEvent error:', error)
+      return false
+    }
+  }, [])
+
+  const leaveEvent = useCallback(async (code: string) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.rpc as any)('leave_event', { p_code: code })
+      if (error) console.error('[Supabase] leaveEvent error:', error)
+    } catch (error) {
+      console.error('[Supabase] leaveEvent error:', error)
+    }
+  }, [])
+
+  const syncEvent = useCallback(async (code: string): Promise<SpeedEvent | null> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('sync_event', { p_code: code })
+
+      if (error) {
+        console.error('[Supabase] syncEvent error:', error)
+        return null
+      }
+
+      return toSpeedEvent(code, data)
+    } catch (error) {
+      console.error('[Supabase] syncEvent error:', error)
+      return null
+    }
+  }, [])
+
+  const enterEventRoom = useCallback(
+    async (code: string): Promise<MatchResult | null> => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.rpc as any)('get_event_room', { p_code: code })
+
+        if (error) {
+          console.error('[Supabase] enterEventRoom error:', error)
+          return null
+        }
+
+        return await enterRoom(data)
+      } catch (error) {
+        console.error('[Supabase] enterEventRoom error:', error)
+        return null
+      }
+    },
+    [enterRoom]
+  )
+
+  const getEventSummary = useCallback(async (code: string): Promise<EventMeeting[]> => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.rpc as any)('get_event_summary', { p_code: code })
+
+      if (error) {
+        console.error('[Supabase] getEventSummary error:', error)
+        return []
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return ((data as any[] | null) ?? []).map((row) => ({ round: row.round, partnerName: row.partner_name }))
+    } catch (error) {
+      console.error('[Supabase] getEventSummary error:', error)
+      return []
+    }
+  }, [])
+
   const contextValue: SupabaseContextType = {
     connected,
     userId,
@@ -518,11 +2049,59 @@ export const SupabaseProvider = ({ children }: SupabaseProviderProps) => {
     peerName,
     messages,
     healthStatus,
+    serverTimeOffset,
+    formats,
+    currentFormat,
+    peerReconnectedAt,
+    peerTyping,
+    peerReaction,
+    reactionsRemaining: Math.max(0, MAX_REACTIONS_PER_SEGMENT - reactionsSent),
+    transcriptConsent,
+    timeRequest,
+    timeResponse,
+    modeRequest,
+    modeResponse,
+    keepInTouchConsent,
+    circleMembers,
     startChat,
+    resumeRoom,
+    followMergedRoom,
     leaveRoom,
     sendMessage,
-    advanceSegment,
+    skipSegment,
+    expireSegment,
+    shufflePrompt,
+    requestTimeChange,
+    respondTimeRequest,
+    resumeSegment,
+    requestModeChange,
+    respondModeRequest,
     submitReport,
+    blockPeer,
+    getQueueStatus,
+    notifyTyping,
+    sendReaction,
+    consentTranscriptExport,
+    getTranscriptConsent,
+    fetchTranscript,
+    submitFeedback,
+    keepInTouch,
+    getConnections,
+    removeConnection,
+    sendConnectionInvite,
+    acceptConnectionInvite,
+    declineConnectionInvite,
+    createInviteRoom,
+    getInviteRoom,
+    joinInviteRoom,
+    startCircle,
+    createEvent,
+    getEvent,
+    joinEvent,
+    leaveEvent,
+    syncEvent,
+    enterEventRoom,
+    getEventSummary,
     trackPresence,
   }
 
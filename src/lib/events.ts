@@ -0,0 +1,30 @@
+// Speed-chat events run on a fixed schedule: round n lasts roundSec from
+// startsAt + (n - 1) * (roundSec + breakSec), followed by a break. Mirrors the
+// arithmetic in sync_event() so every client counts down to the same moment.
+
+export interface EventSchedule {
+  startsAt: number // ms since epoch, server time
+  roundSec: number
+  breakSec: number
+  roundCount: number
+}
+
+export type EventPhase =
+  | { kind: 'scheduled'; nextChangeAt: number }
+  | { kind: 'round'; round: number; nextChangeAt: number }
+  | { kind: 'break'; nextRound: number; nextChangeAt: number }
+  | { kind: 'ended' }
+
+export function getEventPhase(schedule: EventSchedule, now: number): EventPhase {
+  const { startsAt, roundSec, breakSec, roundCount } = schedule
+  if (now < startsAt) return { kind: 'scheduled', nextChangeAt: startsAt }
+
+  const periodMs = (roundSec + breakSec) * 1000
+  const slot = Math.floor((now - startsAt) / periodMs) + 1
+  const slotStart = startsAt + (slot - 1) * periodMs
+  const inRound = now - slotStart < roundSec * 1000
+
+  if (slot > roundCount || (slot === roundCount && !inRound)) return { kind: 'ended' }
+  if (inRound) return { kind: 'round', round: slot, nextChangeAt: slotStart + roundSec * 1000 }
+  return { kind: 'break', nextRound: slot + 1, nextChangeAt: slotStart + periodMs }
+}
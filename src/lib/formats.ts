@@ -0,0 +1,71 @@
+// Conversation formats are stored in the conversation_formats table. Each
+// segment says who speaks, for how long, who may skip it, and an optional prompt.
+// Circle formats have a single segment that is repeated for every seat.
+// Asymmetric formats name the seat that does most of the talking; the matcher
+// picks them for a talker and a listener, so they are never offered directly.
+
+export type FormatRole = 'user1' | 'user2'
+
+// Circles seat up to six people as user1..user6
+export type SeatRole = FormatRole | 'user3' | 'user4' | 'user5' | 'user6'
+
+export interface FormatSegment {
+  speaker: SeatRole
+  duration_sec: number
+  skippable_by: SeatRole[]
+  prompt: string | null
+}
+
+export interface ConversationFormat {
+  id: string
+  name: string
+  description: string | null
+  segments: FormatSegment[]
+  sort_order: number
+  is_active: boolean
+  for_circles: boolean
+  talker_role: FormatRole | null
+}
+
+export const DEFAULT_FORMAT_ID = 'classic'
+
+// Mirrors the 'classic' seed row so the UI can render before formats load
+export const CLASSIC_FORMAT: ConversationFormat = {
+  id: DEFAULT_FORMAT_ID,
+  name: 'Classic',
+  description: 'Four 60-second turns. Equal time to share, equal time to listen.',
+  segments: [
+    { speaker: 'user1', duration_sec: 60, skippable_by: ['user1'], prompt: null },
+    { speaker: 'user2', duration_sec: 60, skippable_by: ['user1'], prompt: null },
+    { speaker: 'user2', duration_sec: 60, skippable_by: ['user2'], prompt: null },
+    { speaker: 'user1', duration_sec: 60, skippable_by: ['user2'], prompt: null },
+  ],
+  sort_order: 0,
+  is_active: true,
+  for_circles: false,
+  talker_role: null,
+}
+
+// Mirrors room_segments() on the server: one turn per occupied seat, in order
+export function expandCircleFormat(format: ConversationFormat, seats: SeatRole[]): ConversationFormat {
+  const template = format.segments[0]
+  if (!template) return format
+  return {
+    ...format,
+    segments: seats.map((seat) => ({ ...template, speaker: seat, skippable_by: [seat] })),
+  }
+}
+
+export function getFormatSegment(format: ConversationFormat, index: number): FormatSegment | null {
+  return format.segments[index] ?? null
+}
+
+export function canRoleSpeak(format: ConversationFormat, index: number, role: SeatRole | null): boolean {
+  if (!role) return false
+  return getFormatSegment(format, index)?.speaker === role
+}
+
+export function canRoleSkip(format: ConversationFormat, index: number, role: SeatRole | null): boolean {
+  if (!role) return false
+  return getFormatSegment(format, index)?.skippable_by.includes(role) ?? false
+}
@@ -0,0 +1,27 @@
+// Non-verbal reactions the listener can send during the speaker's turn. They
+// travel as broadcasts on the room channel and are never stored, so they don't
+// count as speaking.
+
+export type ListenerReaction = 'nod' | 'heart' | 'go_on' | 'hmm'
+
+export interface ListenerReactionInfo {
+  id: ListenerReaction
+  emoji: string
+  label: string
+}
+
+export const LISTENER_REACTIONS: ListenerReactionInfo[] = [
+  { id: 'nod', emoji: '👍', label: 'Nod' },
+  { id: 'heart', emoji: '❤️', label: 'Heart' },
+  { id: 'go_on', emoji: '👉', label: 'Go on' },
+  { id: 'hmm', emoji: '🤔', label: 'Hmm' },
+]
+
+// Per listener, per segment. Receivers drop anything past this too.
+export const MAX_REACTIONS_PER_SEGMENT = 5
+// Minimum gap between one listener's reactions, enforced the same way
+export const REACTION_THROTTLE_MS = 1000
+
+export function getListenerReaction(id: string): ListenerReactionInfo | null {
+  return LISTENER_REACTIONS.find((r) => r.id === id) ?? null
+}
@@ -0,0 +1,124 @@
+// Transcript documents come from the get_room_transcript RPC once both members
+// have consented. This module turns them into Markdown and JSON downloads.
+
+import type { FormatRole } from './formats'
+
+export interface TranscriptParticipant {
+  role: FormatRole
+  display_name: string | null
+}
+
+export interface TranscriptSegment {
+  round: number
+  segment: number
+  speaker: FormatRole | null
+  started_at: string
+}
+
+export interface TranscriptMessage {
+  role: FormatRole | null
+  display_name: string | null
+  text: string
+  created_at: string
+}
+
+export interface Transcript {
+  room_id: string
+  format_id: string
+  mode: string
+  participants: TranscriptParticipant[]
+  segments: TranscriptSegment[]
+  messages: TranscriptMessage[]
+}
+
+// Each segment with the messages sent while it was running. Messages sent
+// before the first recorded segment go in a leading section with round 0 and
+// no speaker, so none are lost when a room has no segment history.
+export interface TranscriptSection extends TranscriptSegment {
+  speaker_name: string | null
+  messages: TranscriptMessage[]
+}
+
+const participantName = (transcript: Transcript, role: FormatRole | null): string | null =>
+  transcript.participants.find((p) => p.role === role)?.display_name ?? null
+
+export function groupTranscript(transcript: Transcript): TranscriptSection[] {
+  const sections: TranscriptSection[] = transcript.segments.map((s) => ({
+    ...s,
+    speaker_name: participantName(transcript, s.speaker),
+    messages: [],
+  }))
+
+  const before: TranscriptMessage[] = []
+
+  for (const message of transcript.messages) {
+    const at = new Date(message.created_at).getTime()
+    // Last segment that started at or before the message
+    let index = -1
+    for (let i = 0; i < sections.length; i++) {
+      if (new Date(sections[i].started_at).getTime() <= at) index = i
+    }
+    if (index < 0) before.push(message)
+    else sections[index].messages.push(message)
+  }
+
+  if (before.length === 0) return sections
+  return [
+    { round: 0, segment: 0, speaker: null, started_at: before[0].created_at, speaker_name: null, messages: before },
+    ...sections,
+  ]
+}
+
+const formatClock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const names = transcript.participants.map((p) => p.display_name || p.role).join(' & ')
+  const started = transcript.segments[0]?.started_at ?? transcript.messages[0]?.created_at
+  const lines = [`# Conversation: ${names}`, '']
+  if (started) lines.push(`_${new Date(started).toLocaleString()} · ${transcript.format_id}_`, '')
+
+  let round = 0
+  for (const section of groupTranscript(transcript)) {
+    if (section.round === 0) {
+      // Only needs a heading when segments follow
+      if (transcript.segments.length > 0) lines.push('## Before the first segment', '')
+    } else {
+      if (section.round !== round) {
+        round = section.round
+        lines.push(`## Round ${round}`, '')
+      }
+      lines.push(`### Segment ${section.segment + 1}: ${section.speaker_name || section.speaker || 'Unknown'} speaks`, '')
+    }
+    if (section.messages.length === 0) lines.push('_No messages_', '')
+    for (const m of section.messages) {
+      lines.push(`**${m.display_name || m.role || 'Unknown'}** (${formatClock(m.created_at)}): ${m.text}`, '')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(
+    {
+      room_id: transcript.room_id,
+      format_id: transcript.format_id,
+      mode: transcript.mode,
+      participants: transcript.participants,
+      sections: groupTranscript(transcript),
+    },
+    null,
+    2
+  )
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
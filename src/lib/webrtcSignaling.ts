@@ -0,0 +1,114 @@
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// Events carried over the per-room broadcast channel. Names match the old
+// Socket.IO events so VideoChat/AudioChat keep their emit/on call sites.
+export type SignalingEvent = 'join-room' | 'webrtc-offer' | 'webrtc-answer' | 'webrtc-ice-candidate'
+
+export interface SignalingMessage {
+  roomId: string
+  fromId: string
+  // Set when a message is meant for one peer only, as in circles
+  toId?: string
+}
+
+type Handler = (msg: SignalingMessage) => void
+
+// Socket-like wrapper around a Supabase Realtime broadcast channel
+export interface RoomSignaling {
+  id: string
+  emit: (event: SignalingEvent, payload: Record<string, unknown>) => void
+  on: <T extends SignalingMessage>(event: SignalingEvent, handler: (msg: T) => void) => void
+  off: <T extends SignalingMessage>(event: SignalingEvent, handler: (msg: T) => void) => void
+  close: () => void
+}
+
+const EVENTS: SignalingEvent[] = ['join-room', 'webrtc-offer', 'webrtc-answer', 'webrtc-ice-candidate']
+
+export function createRoomSignaling(roomId: string, userId: string): RoomSignaling {
+  const handlers = new Map<SignalingEvent, Set<Handler>>()
+  // Messages emitted before the channel is joined are held and flushed on SUBSCRIBED
+  let pending: Array<{ event: SignalingEvent; payload: SignalingMessage }> = []
+  let subscribed = false
+  let closed = false
+
+  const channel: RealtimeChannel = supabase.channel(`room:${roomId}:webrtc`, {
+    config: { broadcast: { self: false } },
+  })
+
+  const send = (event: SignalingEvent, payload: SignalingMessage) => {
+    channel.send({ type: 'broadcast', event, payload }).catch((err) => {
+      console.error('[Signaling] send error:', event, err)
+    })
+  }
+
+  EVENTS.forEach((event) => {
+    channel.on('broadcast', { event }, ({ payload }) => {
+      const msg = payload as SignalingMessage
+      if (msg.roomId !== roomId || msg.fromId === userId) return
+      if (msg.toId && msg.toId !== userId) return
+      handlers.get(event)?.forEach((handler) => handler(msg))
+    })
+  })
+
+  channel.subscribe((status) => {
+    if (status === 'SUBSCRIBED') {
+      subscribed = true
+      console.log('[Signaling] subscribed', { roomId, pending: pending.length })
+      const queued = pending
+      pending = []
+      queued.forEach(({ event, payload }) => send(event, payload))
+    } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      subscribed = false
+      if (!closed) console.warn('[Signaling] channel status:', status)
+    }
+  })
+
+  return {
+    id: userId,
+    emit: (event, payload) => {
+      if (closed) return
+      const msg = { ...payload, roomId, fromId: userId } as SignalingMessage
+      if (subscribed) send(event, msg)
+      else pending.push({ event, payload: msg })
+    },
+    on: (event, handler) => {
+      if (!handlers.has(event)) handlers.set(event, new Set())
+      handlers.get(event)!.add(handler as Handler)
+    },
+    off: (event, handler) => {
+      handlers.get(event)?.delete(handler as Handler)
+    },
+    close: () => {
+      closed = true
+      pending = []
+      handlers.clear()
+      // removeChannel drops it from the client so the same topic can be rejoined later
+      supabase.removeChannel(channel)
+    },
+  }
+}
+
+// Attach local tracks, reusing transceivers the remote offer already created so
+// the answerer doesn't add duplicate m-lines. Tracks already being sent are skipped.
+export async function attachLocalStream(pc: RTCPeerConnection, stream: MediaStream): Promise<void> {
+  const sending = new Set(pc.getSenders().map((s) => s.track?.id))
+  const replacements: Array<Promise<void>> = []
+
+  stream.getTracks().forEach((track) => {
+    if (sending.has(track.id)) return
+    const existing = pc
+      .getTransceivers()
+      .find((t) => t.receiver.track.kind === track.kind && !t.sender.track && t.currentDirection !== 'stopped')
+
+    if (existing) {
+      existing.direction = 'sendrecv'
+      existing.sender.setStreams?.(stream)
+      replacements.push(existing.sender.replaceTrack(track))
+    } else {
+      pc.addTransceiver(track, { direction: 'sendrecv', streams: [stream] })
+    }
+  })
+
+  await Promise.all(replacements)
+}
@@ -0,0 +1,207 @@
+-- =============================================
+-- Server-authoritative segment clock for 1:1 rooms
+-- The database owns segment expiry and advancement. Clients only render a
+-- countdown against segment_ends_at and ask the server to expire a segment.
+-- Run after 005_fix_create_debate_room_title_expr.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS segment_ends_at timestamptz,
+  ADD COLUMN IF NOT EXISTS round int DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_segment_ends_at ON rooms(segment_ends_at) WHERE status = 'matched';
+
+-- Clients no longer write segment state directly; all changes go through the RPCs below
+DROP POLICY IF EXISTS "Members can update their rooms" ON rooms;
+
+-- =============================================
+-- TRIGGER: keep segment_ends_at in step with segment_start_at
+-- =============================================
+
+CREATE OR REPLACE FUNCTION set_room_segment_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.segment_start_at IS NULL THEN
+    NEW.segment_ends_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.segment_start_at IS DISTINCT FROM OLD.segment_start_at
+    OR NEW.segment_duration_sec IS DISTINCT FROM OLD.segment_duration_sec THEN
+    NEW.segment_ends_at := NEW.segment_start_at + make_interval(secs => NEW.segment_duration_sec);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_set_segment_deadline ON rooms;
+CREATE TRIGGER rooms_set_segment_deadline
+  BEFORE INSERT OR UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION set_room_segment_deadline();
+
+-- =============================================
+-- INTERNAL: advance_room_segment
+-- Moves a matched room to the next segment if it is still on p_expected_segment.
+-- The expected-segment guard makes concurrent calls from both clients and the
+-- cron job idempotent: only the first one advances.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION advance_room_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE rooms
+  SET current_segment = (current_segment + 1) % 4,
+      round = round + CASE WHEN current_segment = 3 THEN 1 ELSE 0 END,
+      segment_start_at = now()
+  WHERE id = p_room_id
+    AND status = 'matched'
+    AND current_segment = p_expected_segment
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION advance_room_segment(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: server_now (clients derive their clock offset from this)
+-- =============================================
+
+CREATE OR REPLACE FUNCTION server_now()
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT now();
+$$;
+
+-- =============================================
+-- RPC: expire_segment
+-- Either member may call this once their countdown hits zero. The segment only
+-- advances if the server agrees the deadline has passed. Always returns the
+-- current room row so the caller can resync.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION expire_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members
+    WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  PERFORM 1 FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND segment_ends_at IS NOT NULL AND segment_ends_at <= now()
+  ) THEN
+    PERFORM advance_room_segment(p_room_id, p_expected_segment);
+  END IF;
+
+  RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+-- =============================================
+-- RPC: advance_segment (skip)
+-- Replaces the user1-only version from 001. The current speaker's side may skip:
+-- user1 during segments 0-1, user2 during segments 2-3.
+-- =============================================
+
+DROP FUNCTION IF EXISTS advance_segment(uuid);
+
+CREATE OR REPLACE FUNCTION advance_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_current_segment int;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT current_segment INTO v_current_segment
+  FROM rooms WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF (v_role = 'user1' AND v_current_segment NOT IN (0, 1))
+    OR (v_role = 'user2' AND v_current_segment NOT IN (2, 3)) THEN
+    RAISE EXCEPTION 'You cannot skip this segment';
+  END IF;
+
+  PERFORM advance_room_segment(p_room_id, p_expected_segment);
+
+  RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+-- =============================================
+-- SCHEDULED: expire_stale_segments
+-- Advances every matched room whose deadline has passed, so a conversation keeps
+-- moving even if both tabs are throttled or closed.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION expire_stale_segments()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room record;
+  v_count int := 0;
+BEGIN
+  FOR v_room IN
+    SELECT id, current_segment FROM rooms
+    WHERE status = 'matched' AND segment_ends_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM advance_room_segment(v_room.id, v_room.current_segment);
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_segments() FROM PUBLIC, anon, authenticated;
+
+-- Requires pg_cron (Dashboard > Database > Extensions). Sub-minute schedules need pg_cron 1.5+.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-room-segments', '5 seconds', 'SELECT expire_stale_segments()');
+  END IF;
+END;
+$$;
+
+-- Backfill deadlines for rooms already in progress
+UPDATE rooms
+SET segment_ends_at = segment_start_at + make_interval(secs => segment_duration_sec)
+WHERE status = 'matched' AND segment_start_at IS NOT NULL AND segment_ends_at IS NULL;
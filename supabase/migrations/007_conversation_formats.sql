@@ -0,0 +1,264 @@
+-- =============================================
+-- Data-driven conversation formats
+-- Each format lists its segments in order: who speaks, for how long, who may
+-- skip, and an optional prompt. Rooms reference a format and the segment
+-- clock reads durations and skip rules from it.
+-- Run after 006_server_segment_clock.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS conversation_formats (
+  id text PRIMARY KEY,
+  created_at timestamptz DEFAULT now(),
+  name text NOT NULL,
+  description text,
+  -- [{ "speaker": "user1", "duration_sec": 60, "skippable_by": ["user1"], "prompt": null }, ...]
+  segments jsonb NOT NULL CHECK (jsonb_typeof(segments) = 'array' AND jsonb_array_length(segments) > 0),
+  sort_order int DEFAULT 0,
+  is_active boolean DEFAULT true
+);
+
+ALTER TABLE conversation_formats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view conversation formats"
+  ON conversation_formats FOR SELECT
+  USING (true);
+
+-- Seed formats. 'classic' matches the original hard-coded 4 x 60s table.
+INSERT INTO conversation_formats (id, name, description, segments, sort_order) VALUES
+(
+  'classic',
+  'Classic',
+  'Four 60-second turns. Equal time to share, equal time to listen.',
+  '[
+    { "speaker": "user1", "duration_sec": 60, "skippable_by": ["user1"], "prompt": null },
+    { "speaker": "user2", "duration_sec": 60, "skippable_by": ["user1"], "prompt": null },
+    { "speaker": "user2", "duration_sec": 60, "skippable_by": ["user2"], "prompt": null },
+    { "speaker": "user1", "duration_sec": 60, "skippable_by": ["user2"], "prompt": null }
+  ]'::jsonb,
+  0
+),
+(
+  'deep-dive',
+  '3-minute deep dive',
+  'Two long turns each. Room to tell the whole story.',
+  '[
+    { "speaker": "user1", "duration_sec": 180, "skippable_by": ["user1"], "prompt": "Share something that has been on your mind lately." },
+    { "speaker": "user2", "duration_sec": 180, "skippable_by": ["user2"], "prompt": "Respond to what you heard, then share your own." },
+    { "speaker": "user1", "duration_sec": 180, "skippable_by": ["user1"], "prompt": "Go deeper: what is underneath it?" },
+    { "speaker": "user2", "duration_sec": 180, "skippable_by": ["user2"], "prompt": "Go deeper: what is underneath it?" }
+  ]'::jsonb,
+  1
+),
+(
+  'rapid',
+  'Rapid 30-second exchange',
+  'Short alternating turns. Keep it quick.',
+  '[
+    { "speaker": "user1", "duration_sec": 30, "skippable_by": ["user1"], "prompt": null },
+    { "speaker": "user2", "duration_sec": 30, "skippable_by": ["user2"], "prompt": null },
+    { "speaker": "user1", "duration_sec": 30, "skippable_by": ["user1"], "prompt": null },
+    { "speaker": "user2", "duration_sec": 30, "skippable_by": ["user2"], "prompt": null },
+    { "speaker": "user1", "duration_sec": 30, "skippable_by": ["user1"], "prompt": null },
+    { "speaker": "user2", "duration_sec": 30, "skippable_by": ["user2"], "prompt": null }
+  ]'::jsonb,
+  2
+)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS format_id text REFERENCES conversation_formats(id) DEFAULT 'classic';
+
+UPDATE rooms SET format_id = 'classic' WHERE format_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_format_id ON rooms(format_id);
+
+-- =============================================
+-- INTERNAL: advance_room_segment
+-- Same idempotency guard as 006, but the segment count and the next
+-- segment's duration come from the room's format.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION advance_room_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_segments jsonb;
+  v_count int;
+  v_next int;
+BEGIN
+  SELECT f.segments INTO v_segments
+  FROM rooms r
+  JOIN conversation_formats f ON f.id = r.format_id
+  WHERE r.id = p_room_id;
+
+  IF v_segments IS NULL THEN
+    RAISE EXCEPTION 'Room has no conversation format';
+  END IF;
+
+  v_count := jsonb_array_length(v_segments);
+  v_next := (p_expected_segment + 1) % v_count;
+
+  RETURN QUERY
+  UPDATE rooms
+  SET current_segment = v_next,
+      round = round + CASE WHEN v_next = 0 THEN 1 ELSE 0 END,
+      segment_duration_sec = (v_segments -> v_next ->> 'duration_sec')::int,
+      segment_start_at = now()
+  WHERE id = p_room_id
+    AND status = 'matched'
+    AND current_segment = p_expected_segment
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION advance_room_segment(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: advance_segment (skip)
+-- Skip permission comes from the current segment's skippable_by list
+-- =============================================
+
+CREATE OR REPLACE FUNCTION advance_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_segment jsonb;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT f.segments -> r.current_segment INTO v_segment
+  FROM rooms r
+  JOIN conversation_formats f ON f.id = r.format_id
+  WHERE r.id = p_room_id
+  FOR UPDATE OF r;
+
+  IF v_segment IS NULL OR NOT (v_segment -> 'skippable_by') ? v_role THEN
+    RAISE EXCEPTION 'You cannot skip this segment';
+  END IF;
+
+  PERFORM advance_room_segment(p_room_id, p_expected_segment);
+
+  RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room with a format
+-- Only rooms waiting on the same format are matched. The 2-arg version is
+-- dropped so PostgREST doesn't hit an overload ambiguity (see 004).
+-- =============================================
+
+DROP FUNCTION IF EXISTS match_or_create_room(text, text);
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_existing_room_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  -- Look for a waiting room that:
+  -- 1. Has compatible mode (same mode, or either is 'any')
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  SELECT r.id, rm.display_name, r.mode
+  INTO v_existing_room_id, v_peer_name, v_actual_mode
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND (
+      r.mode = p_mode
+      OR r.mode = 'any'
+      OR p_mode = 'any'
+    )
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+  ORDER BY r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode
+    IF v_actual_mode = 'any' AND p_mode != 'any' THEN
+      v_actual_mode := p_mode;
+    ELSIF p_mode = 'any' AND v_actual_mode != 'any' THEN
+      -- Keep v_actual_mode as is
+      NULL;
+    ELSIF p_mode = 'any' AND v_actual_mode = 'any' THEN
+      v_actual_mode := 'video'; -- Default to video when both are 'any'
+    END IF;
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2');
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode
+    WHERE id = v_existing_room_id;
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration)
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1');
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode;
+  END IF;
+END;
+$$;
@@ -0,0 +1,176 @@
+-- =============================================
+-- Interest-tag matchmaking
+-- Users pick up to 5 interest tags. The matcher prefers waiting rooms that
+-- share tags and only falls back to any compatible room once that room has
+-- waited longer than matchmaking_settings.tag_widen_after_sec.
+-- Run after 007_conversation_formats.sql
+-- =============================================
+
+-- Single-row table of matchmaking knobs, editable from the SQL editor
+CREATE TABLE IF NOT EXISTS matchmaking_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  tag_widen_after_sec int NOT NULL DEFAULT 30
+);
+
+INSERT INTO matchmaking_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE matchmaking_settings ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE room_members
+  ADD COLUMN IF NOT EXISTS interest_tags text[] NOT NULL DEFAULT '{}';
+
+-- Tags both members share, set when the room is matched
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS shared_tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_room_members_interest_tags ON room_members USING gin (interest_tags);
+
+-- =============================================
+-- HELPER: normalize_interest_tags
+-- Lowercases, trims, drops blanks and duplicates, caps at 5 tags of 24 chars
+-- =============================================
+
+CREATE OR REPLACE FUNCTION normalize_interest_tags(p_tags text[])
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(tag ORDER BY first_pos), '{}')
+  FROM (
+    SELECT tag, MIN(pos) AS first_pos
+    FROM unnest(COALESCE(p_tags, '{}')) WITH ORDINALITY AS t(raw, pos)
+    CROSS JOIN LATERAL (SELECT left(lower(trim(raw)), 24) AS tag) n
+    WHERE tag <> ''
+    GROUP BY tag
+    ORDER BY MIN(pos)
+    LIMIT 5
+  ) s;
+$$;
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room with interest tags
+-- Return type gains shared_tags, so the previous signature is dropped first.
+-- =============================================
+
+DROP FUNCTION IF EXISTS match_or_create_room(text, text, text);
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_widen_after_sec int;
+  v_existing_room_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec INTO v_widen_after_sec FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+
+  -- Look for a waiting room that:
+  -- 1. Has compatible mode (same mode, or either is 'any')
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- Rooms with more shared tags win, then the oldest.
+  SELECT r.id, rm.display_name, r.mode, rm.interest_tags
+  INTO v_existing_room_id, v_peer_name, v_actual_mode, v_peer_tags
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND (
+      r.mode = p_mode
+      OR r.mode = 'any'
+      OR p_mode = 'any'
+    )
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+  ORDER BY
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode
+    IF v_actual_mode = 'any' AND p_mode != 'any' THEN
+      v_actual_mode := p_mode;
+    ELSIF p_mode = 'any' AND v_actual_mode != 'any' THEN
+      -- Keep v_actual_mode as is
+      NULL;
+    ELSIF p_mode = 'any' AND v_actual_mode = 'any' THEN
+      v_actual_mode := 'video'; -- Default to video when both are 'any'
+    END IF;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration)
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
@@ -0,0 +1,193 @@
+-- =============================================
+-- Avoid re-matching the same stranger back-to-back
+-- Every match is recorded in recent_pairs. The matcher puts partners from the
+-- caller's last N pairings, or from the last X minutes, at the back of the
+-- queue so they are only matched again when nobody else is waiting.
+-- Run after 008_interest_tag_matching.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS recent_pairs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  user_a uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_b uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  paired_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recent_pairs_user_a ON recent_pairs(user_a, paired_at DESC);
+CREATE INDEX IF NOT EXISTS idx_recent_pairs_user_b ON recent_pairs(user_b, paired_at DESC);
+
+-- No policies: only SECURITY DEFINER functions read or write pairings
+ALTER TABLE recent_pairs ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE matchmaking_settings
+  ADD COLUMN IF NOT EXISTS repeat_avoid_last_n int NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS repeat_avoid_minutes int NOT NULL DEFAULT 30;
+
+-- =============================================
+-- HELPER: recent_partner_ids
+-- Partners from the user's last N pairings or from the last X minutes
+-- =============================================
+
+CREATE OR REPLACE FUNCTION recent_partner_ids(p_user_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH settings AS (
+    SELECT repeat_avoid_last_n, repeat_avoid_minutes FROM matchmaking_settings LIMIT 1
+  ),
+  pairs AS (
+    SELECT
+      CASE WHEN p.user_a = p_user_id THEN p.user_b ELSE p.user_a END AS partner_id,
+      p.paired_at,
+      row_number() OVER (ORDER BY p.paired_at DESC) AS rn
+    FROM recent_pairs p
+    WHERE p.user_a = p_user_id OR p.user_b = p_user_id
+  )
+  SELECT DISTINCT pairs.partner_id
+  FROM pairs, settings
+  WHERE pairs.partner_id IS NOT NULL
+    AND (
+      pairs.rn <= settings.repeat_avoid_last_n
+      OR pairs.paired_at >= now() - make_interval(mins => settings.repeat_avoid_minutes)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION recent_partner_ids(uuid) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room skipping recent partners
+-- Same signature as 008
+-- =============================================
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_widen_after_sec int;
+  v_recent_partners uuid[];
+  v_existing_room_id uuid;
+  v_peer_user_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec INTO v_widen_after_sec FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+
+  v_recent_partners := ARRAY(SELECT recent_partner_ids(v_user_id));
+
+  -- Look for a waiting room that:
+  -- 1. Has compatible mode (same mode, or either is 'any')
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- Recent partners sort last, so they are only picked when nobody else is waiting.
+  -- Otherwise rooms with more shared tags win, then the oldest.
+  SELECT r.id, rm.user_id, rm.display_name, r.mode, rm.interest_tags
+  INTO v_existing_room_id, v_peer_user_id, v_peer_name, v_actual_mode, v_peer_tags
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND (
+      r.mode = p_mode
+      OR r.mode = 'any'
+      OR p_mode = 'any'
+    )
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+  ORDER BY
+    (rm.user_id = ANY (v_recent_partners)) ASC,
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode
+    IF v_actual_mode = 'any' AND p_mode != 'any' THEN
+      v_actual_mode := p_mode;
+    ELSIF p_mode = 'any' AND v_actual_mode != 'any' THEN
+      -- Keep v_actual_mode as is
+      NULL;
+    ELSIF p_mode = 'any' AND v_actual_mode = 'any' THEN
+      v_actual_mode := 'video'; -- Default to video when both are 'any'
+    END IF;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_existing_room_id, v_peer_user_id, v_user_id);
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration)
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
@@ -0,0 +1,246 @@
+-- =============================================
+-- User-level block list
+-- A user can block the person they are talking to. Blocked pairs are never
+-- matched again, in either direction, and the blocker no longer sees the
+-- blocked user's messages in debate_chat.
+-- Run after 009_avoid_recent_partners.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON user_blocks(blocked_id);
+
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own block list. Who blocked you is never visible.
+CREATE POLICY "Users can view their blocks"
+  ON user_blocks FOR SELECT
+  USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock"
+  ON user_blocks FOR DELETE
+  USING (blocker_id = auth.uid());
+
+-- =============================================
+-- HELPER: is_blocked_pair (either direction)
+-- =============================================
+
+CREATE OR REPLACE FUNCTION is_blocked_pair(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+       OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_blocked_pair(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: block_room_peer
+-- Blocks the other member of a room the caller belongs to, so the client
+-- never needs to handle the peer's user id.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION block_room_peer(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_peer_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT user_id INTO v_peer_id
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id != v_user_id
+  LIMIT 1;
+
+  IF v_peer_id IS NULL THEN
+    RAISE EXCEPTION 'No one to block in this room';
+  END IF;
+
+  INSERT INTO user_blocks (blocker_id, blocked_id)
+  VALUES (v_user_id, v_peer_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- =============================================
+-- DEBATE CHAT: hide blocked users' messages from the blocker
+-- Realtime applies the same policy, so live messages are filtered too.
+-- =============================================
+
+DROP POLICY IF EXISTS "Participants can view debate chat" ON debate_chat;
+
+CREATE POLICY "Participants can view debate chat"
+  ON debate_chat FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM debate_participants
+      WHERE debate_participants.room_id = debate_chat.room_id
+      AND debate_participants.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM user_blocks
+      WHERE user_blocks.blocker_id = auth.uid()
+      AND user_blocks.blocked_id = debate_chat.user_id
+    )
+  );
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room never pairs blocked users
+-- Same signature as 008
+-- =============================================
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_widen_after_sec int;
+  v_recent_partners uuid[];
+  v_existing_room_id uuid;
+  v_peer_user_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec INTO v_widen_after_sec FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+
+  v_recent_partners := ARRAY(SELECT recent_partner_ids(v_user_id));
+
+  -- Look for a waiting room that:
+  -- 1. Has compatible mode (same mode, or either is 'any')
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- 6. Neither user has blocked the other
+  -- Recent partners sort last, so they are only picked when nobody else is waiting.
+  -- Otherwise rooms with more shared tags win, then the oldest.
+  SELECT r.id, rm.user_id, rm.display_name, r.mode, rm.interest_tags
+  INTO v_existing_room_id, v_peer_user_id, v_peer_name, v_actual_mode, v_peer_tags
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND (
+      r.mode = p_mode
+      OR r.mode = 'any'
+      OR p_mode = 'any'
+    )
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+    AND NOT is_blocked_pair(v_user_id, rm.user_id)
+  ORDER BY
+    (rm.user_id = ANY (v_recent_partners)) ASC,
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode
+    IF v_actual_mode = 'any' AND p_mode != 'any' THEN
+      v_actual_mode := p_mode;
+    ELSIF p_mode = 'any' AND v_actual_mode != 'any' THEN
+      -- Keep v_actual_mode as is
+      NULL;
+    ELSIF p_mode = 'any' AND v_actual_mode = 'any' THEN
+      v_actual_mode := 'video'; -- Default to video when both are 'any'
+    END IF;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_existing_room_id, v_peer_user_id, v_user_id);
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration)
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
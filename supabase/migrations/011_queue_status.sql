@@ -0,0 +1,86 @@
+-- =============================================
+-- Queue position and estimated wait
+-- rooms.matched_at records when a waiting room got its second member so we
+-- can estimate waits from recent match times per mode.
+-- Run after 010_user_blocks.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS matched_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_matched_at ON rooms(matched_at DESC) WHERE matched_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_room_matched_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'matched' AND OLD.status = 'waiting' AND NEW.matched_at IS NULL THEN
+    NEW.matched_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_set_matched_at ON rooms;
+CREATE TRIGGER rooms_set_matched_at
+  BEFORE UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION set_room_matched_at();
+
+-- =============================================
+-- RPC: get_queue_status
+-- For the caller's waiting room: 1-based position among compatible waiting
+-- rooms (same format, mode compatible), how many are waiting, and an
+-- estimated remaining wait from the median match time for that mode over the
+-- last hour. estimated_wait_sec is NULL when there is no recent data.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_queue_status(p_room_id uuid)
+RETURNS TABLE (queue_position int, waiting_count int, waited_sec int, estimated_wait_sec int)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms%ROWTYPE;
+  v_median_sec double precision;
+BEGIN
+  SELECT r.* INTO v_room
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.id = p_room_id AND rm.user_id = v_user_id;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE r.created_at <= v_room.created_at)::int,
+    COUNT(*)::int
+  INTO queue_position, waiting_count
+  FROM rooms r
+  WHERE r.status = 'waiting'
+    AND r.format_id = v_room.format_id
+    AND (r.mode = v_room.mode OR r.mode = 'any' OR v_room.mode = 'any');
+
+  waited_sec := GREATEST(0, EXTRACT(EPOCH FROM now() - v_room.created_at))::int;
+
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r.matched_at - r.created_at))
+  INTO v_median_sec
+  FROM rooms r
+  WHERE r.matched_at >= now() - interval '1 hour'
+    AND (v_room.mode = 'any' OR r.mode = v_room.mode);
+
+  IF v_median_sec IS NOT NULL THEN
+    -- Each room ahead of us needs roughly one typical match before our turn
+    estimated_wait_sec := GREATEST(0, ceil(v_median_sec * queue_position - waited_sec))::int;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,285 @@
+-- =============================================
+-- Automatic queue widening
+-- A waiting room now carries the set of modes it accepts. Users can opt in to
+-- widen after N seconds: the set relaxes one step every N seconds
+-- (video -> video/audio -> any) and the matcher compares sets instead of the
+-- single mode column.
+-- Run after 011_queue_status.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS acceptable_modes text[],
+  -- NULL means the user did not opt in
+  ADD COLUMN IF NOT EXISTS mode_widen_after_sec int CHECK (mode_widen_after_sec IS NULL OR mode_widen_after_sec > 0);
+
+-- =============================================
+-- HELPER: widened_modes
+-- Step 0 is the chosen mode, step 1 adds the next less demanding mode
+-- (video -> audio -> text, text falls back to audio), step 2+ is any.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION widened_modes(p_mode text, p_step int)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_mode = 'any' OR p_step >= 2 THEN ARRAY['video', 'audio', 'text']
+    WHEN p_step = 1 THEN ARRAY[
+      p_mode,
+      CASE p_mode WHEN 'video' THEN 'audio' WHEN 'audio' THEN 'text' ELSE 'audio' END
+    ]
+    ELSE ARRAY[p_mode]
+  END;
+$$;
+
+UPDATE rooms SET acceptable_modes = widened_modes(mode, 0) WHERE acceptable_modes IS NULL;
+
+ALTER TABLE rooms ALTER COLUMN acceptable_modes SET DEFAULT ARRAY['video', 'audio', 'text'];
+ALTER TABLE rooms ALTER COLUMN acceptable_modes SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_acceptable_modes ON rooms USING gin (acceptable_modes) WHERE status = 'waiting';
+
+-- =============================================
+-- INTERNAL: widen_waiting_rooms
+-- Moves every opted-in waiting room to the step its age calls for. Runs at
+-- the start of each match attempt and on a schedule, so the waiting client
+-- sees its set change over realtime even when nobody else is searching.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION widen_waiting_rooms()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count int;
+BEGIN
+  UPDATE rooms
+  SET acceptable_modes = w.modes
+  FROM (
+    SELECT id, widened_modes(
+      mode,
+      floor(EXTRACT(EPOCH FROM now() - created_at) / mode_widen_after_sec)::int
+    ) AS modes
+    FROM rooms
+    WHERE status = 'waiting' AND mode_widen_after_sec IS NOT NULL
+  ) w
+  WHERE rooms.id = w.id
+    AND rooms.acceptable_modes IS DISTINCT FROM w.modes;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION widen_waiting_rooms() FROM PUBLIC, anon, authenticated;
+
+-- Requires pg_cron, same as 006
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('widen-waiting-rooms', '5 seconds', 'SELECT widen_waiting_rooms()');
+  END IF;
+END;
+$$;
+
+-- =============================================
+-- RPC: get_queue_status
+-- Same as 011, but "compatible" now means the acceptable sets overlap
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_queue_status(p_room_id uuid)
+RETURNS TABLE (queue_position int, waiting_count int, waited_sec int, estimated_wait_sec int)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms%ROWTYPE;
+  v_median_sec double precision;
+BEGIN
+  SELECT r.* INTO v_room
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.id = p_room_id AND rm.user_id = v_user_id;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE r.created_at <= v_room.created_at)::int,
+    COUNT(*)::int
+  INTO queue_position, waiting_count
+  FROM rooms r
+  WHERE r.status = 'waiting'
+    AND r.format_id = v_room.format_id
+    AND r.acceptable_modes && v_room.acceptable_modes;
+
+  waited_sec := GREATEST(0, EXTRACT(EPOCH FROM now() - v_room.created_at))::int;
+
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r.matched_at - r.created_at))
+  INTO v_median_sec
+  FROM rooms r
+  WHERE r.matched_at >= now() - interval '1 hour'
+    AND r.mode = ANY (v_room.acceptable_modes);
+
+  IF v_median_sec IS NOT NULL THEN
+    -- Each room ahead of us needs roughly one typical match before our turn
+    estimated_wait_sec := GREATEST(0, ceil(v_median_sec * queue_position - waited_sec))::int;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room with acceptable mode sets
+-- Gains p_mode_widen_after_sec, so the 4-arg version is dropped first (see 004).
+-- =============================================
+
+DROP FUNCTION IF EXISTS match_or_create_room(text, text, text, text[]);
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}',
+  p_mode_widen_after_sec int DEFAULT NULL
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_my_modes text[] := widened_modes(p_mode, 0);
+  v_room_mode text;
+  v_room_modes text[];
+  v_widen_after_sec int;
+  v_recent_partners uuid[];
+  v_existing_room_id uuid;
+  v_peer_user_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec INTO v_widen_after_sec FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+
+  v_recent_partners := ARRAY(SELECT recent_partner_ids(v_user_id));
+
+  -- Bring opted-in waiting rooms' acceptable modes up to date before searching
+  PERFORM widen_waiting_rooms();
+
+  -- Look for a waiting room that:
+  -- 1. Accepts a mode we accept (its set may have widened while it waited)
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- 6. Neither user has blocked the other
+  -- Recent partners sort last, so they are only picked when nobody else is waiting.
+  -- Otherwise rooms with more shared tags win, then the oldest.
+  SELECT r.id, rm.user_id, rm.display_name, r.mode, r.acceptable_modes, rm.interest_tags
+  INTO v_existing_room_id, v_peer_user_id, v_peer_name, v_room_mode, v_room_modes, v_peer_tags
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND r.acceptable_modes && v_my_modes
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+    AND NOT is_blocked_pair(v_user_id, rm.user_id)
+  ORDER BY
+    (rm.user_id = ANY (v_recent_partners)) ASC,
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode: the waiting user's original choice if we
+    -- accept it, else ours if their widened set allows it, else video > audio > text
+    v_actual_mode := CASE
+      WHEN v_room_mode != 'any' AND v_room_mode = ANY (v_my_modes) THEN v_room_mode
+      WHEN p_mode != 'any' AND p_mode = ANY (v_room_modes) THEN p_mode
+      ELSE (
+        SELECT m FROM unnest(ARRAY['video', 'audio', 'text']) WITH ORDINALITY AS o(m, pos)
+        WHERE m = ANY (v_room_modes) AND m = ANY (v_my_modes)
+        ORDER BY pos
+        LIMIT 1
+      )
+    END;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_existing_room_id, v_peer_user_id, v_user_id);
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, mode_widen_after_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration, v_my_modes, NULLIF(p_mode_widen_after_sec, 0))
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
@@ -0,0 +1,226 @@
+-- =============================================
+-- Heartbeats and the abandoned room reaper
+-- Clients in a waiting or matched room ping heartbeat() every few seconds.
+-- The matcher skips waiting rooms whose member has gone quiet, and a cron
+-- job closes waiting rooms left behind by closed tabs and matched rooms
+-- where both members have gone silent.
+-- Run after 012_queue_widening.sql
+-- =============================================
+
+ALTER TABLE room_members
+  ADD COLUMN IF NOT EXISTS last_seen_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_room_members_last_seen_at ON room_members(last_seen_at);
+
+-- Clients beat every 10s, so this allows two missed beats plus slack
+ALTER TABLE matchmaking_settings
+  ADD COLUMN IF NOT EXISTS heartbeat_stale_sec int NOT NULL DEFAULT 30;
+
+-- =============================================
+-- RPC: heartbeat
+-- =============================================
+
+CREATE OR REPLACE FUNCTION heartbeat(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE room_members
+  SET last_seen_at = now()
+  WHERE room_id = p_room_id AND user_id = auth.uid();
+END;
+$$;
+
+-- =============================================
+-- INTERNAL: reap_abandoned_rooms
+-- Closes open rooms with no member seen within heartbeat_stale_sec. For a
+-- waiting room that is its only member; for a matched room, both.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION reap_abandoned_rooms()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stale_sec int;
+  v_count int;
+BEGIN
+  SELECT heartbeat_stale_sec INTO v_stale_sec FROM matchmaking_settings LIMIT 1;
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  UPDATE rooms r
+  SET status = 'closed'
+  WHERE r.status IN ('waiting', 'matched')
+    AND r.created_at < now() - make_interval(secs => v_stale_sec)
+    AND NOT EXISTS (
+      SELECT 1 FROM room_members rm
+      WHERE rm.room_id = r.id
+        AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reap_abandoned_rooms() FROM PUBLIC, anon, authenticated;
+
+-- Requires pg_cron, same as 006
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('reap-abandoned-rooms', '10 seconds', 'SELECT reap_abandoned_rooms()');
+  END IF;
+END;
+$$;
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room skips stale waiting rooms
+-- Same signature as 012
+-- =============================================
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}',
+  p_mode_widen_after_sec int DEFAULT NULL
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_my_modes text[] := widened_modes(p_mode, 0);
+  v_room_mode text;
+  v_room_modes text[];
+  v_widen_after_sec int;
+  v_stale_sec int;
+  v_recent_partners uuid[];
+  v_existing_room_id uuid;
+  v_peer_user_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec, heartbeat_stale_sec
+  INTO v_widen_after_sec, v_stale_sec
+  FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  v_recent_partners := ARRAY(SELECT recent_partner_ids(v_user_id));
+
+  -- Bring opted-in waiting rooms' acceptable modes up to date before searching
+  PERFORM widen_waiting_rooms();
+
+  -- Look for a waiting room that:
+  -- 1. Accepts a mode we accept (its set may have widened while it waited)
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- 6. Neither user has blocked the other
+  -- 7. Its member has sent a heartbeat recently
+  -- Recent partners sort last, so they are only picked when nobody else is waiting.
+  -- Otherwise rooms with more shared tags win, then the oldest.
+  SELECT r.id, rm.user_id, rm.display_name, r.mode, r.acceptable_modes, rm.interest_tags
+  INTO v_existing_room_id, v_peer_user_id, v_peer_name, v_room_mode, v_room_modes, v_peer_tags
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND r.acceptable_modes && v_my_modes
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+    AND NOT is_blocked_pair(v_user_id, rm.user_id)
+    AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+  ORDER BY
+    (rm.user_id = ANY (v_recent_partners)) ASC,
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode: the waiting user's original choice if we
+    -- accept it, else ours if their widened set allows it, else video > audio > text
+    v_actual_mode := CASE
+      WHEN v_room_mode != 'any' AND v_room_mode = ANY (v_my_modes) THEN v_room_mode
+      WHEN p_mode != 'any' AND p_mode = ANY (v_room_modes) THEN p_mode
+      ELSE (
+        SELECT m FROM unnest(ARRAY['video', 'audio', 'text']) WITH ORDINALITY AS o(m, pos)
+        WHERE m = ANY (v_room_modes) AND m = ANY (v_my_modes)
+        ORDER BY pos
+        LIMIT 1
+      )
+    END;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_existing_room_id, v_peer_user_id, v_user_id);
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, mode_widen_after_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration, v_my_modes, NULLIF(p_mode_widen_after_sec, 0))
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- =============================================
+-- Resume a conversation after page reload
+-- The anonymous session survives a reload, so the caller's open room_members
+-- row tells us which room to reconnect to.
+-- Run after 013_heartbeat_reaper.sql
+-- =============================================
+
+-- =============================================
+-- RPC: resume_room
+-- Returns the caller's most recent waiting or matched room, their own
+-- membership details and the peer's name, and counts as a heartbeat so the
+-- reaper doesn't close the room mid-reconnect. Returns no row if there is
+-- nothing to resume.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_room()
+RETURNS TABLE (room_id uuid, role text, display_name text, interest_tags text[], peer_name text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  RETURN QUERY
+  UPDATE room_members me
+  SET last_seen_at = now()
+  WHERE me.user_id = v_user_id
+    AND me.room_id = (
+      SELECT rm.room_id
+      FROM room_members rm
+      JOIN rooms open_room ON open_room.id = rm.room_id
+      WHERE rm.user_id = v_user_id
+        AND open_room.status IN ('waiting', 'matched')
+      ORDER BY rm.joined_at DESC
+      LIMIT 1
+    )
+  RETURNING
+    me.room_id,
+    me.role,
+    me.display_name,
+    me.interest_tags,
+    (
+      SELECT peer.display_name FROM room_members peer
+      WHERE peer.room_id = me.room_id AND peer.user_id != v_user_id
+    );
+END;
+$$;
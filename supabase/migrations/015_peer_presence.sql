@@ -0,0 +1,49 @@
+-- =============================================
+-- Peer-left detection via room presence
+-- Both members track Realtime presence on the room channel. When the peer's
+-- presence is gone for the grace period, the survivor asks the server to
+-- close the room. The server only agrees if the peer's heartbeat (013) is
+-- also older than the grace period, so a presence blip can't end a live chat.
+-- Run after 014_resume_room.sql
+-- =============================================
+
+ALTER TABLE matchmaking_settings
+  ADD COLUMN IF NOT EXISTS peer_left_grace_sec int NOT NULL DEFAULT 15;
+
+-- =============================================
+-- RPC: close_room_if_peer_gone
+-- Returns the closed room, or no row if the peer is still around
+-- =============================================
+
+CREATE OR REPLACE FUNCTION close_room_if_peer_gone(p_room_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_grace_sec int;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT peer_left_grace_sec INTO v_grace_sec FROM matchmaking_settings LIMIT 1;
+  v_grace_sec := COALESCE(v_grace_sec, 15);
+
+  RETURN QUERY
+  UPDATE rooms r
+  SET status = 'closed'
+  WHERE r.id = p_room_id
+    AND r.status = 'matched'
+    AND NOT EXISTS (
+      SELECT 1 FROM room_members rm
+      WHERE rm.room_id = r.id
+        AND rm.user_id != v_user_id
+        AND rm.last_seen_at >= now() - make_interval(secs => v_grace_sec)
+    )
+  RETURNING r.*;
+END;
+$$;
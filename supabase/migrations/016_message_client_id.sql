@@ -0,0 +1,17 @@
+-- =============================================
+-- Client message IDs
+-- The sender generates client_id before inserting, so the optimistic copy can
+-- be matched to the row that comes back over realtime. The unique constraint
+-- makes retries idempotent: a retry of a message that actually went through
+-- fails with 23505, which the client treats as sent.
+-- Run after 015_peer_presence.sql
+-- =============================================
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS client_id uuid;
+
+-- NULLs are distinct, so older rows without a client_id are unaffected
+ALTER TABLE messages
+  DROP CONSTRAINT IF EXISTS messages_room_client_id_key;
+ALTER TABLE messages
+  ADD CONSTRAINT messages_room_client_id_key UNIQUE (room_id, client_id);
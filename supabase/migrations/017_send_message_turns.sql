@@ -0,0 +1,77 @@
+-- =============================================
+-- Server-side turn enforcement for text messages
+-- Inserts now go through send_message(), which checks the sender's role
+-- against the speaker of the room's current segment in its conversation
+-- format (the same data ChatScreen uses). The direct INSERT policy is dropped.
+-- Rejections carry a machine-readable code in HINT so the client can show a
+-- specific message:
+--   not_a_member     caller is not in the room
+--   room_not_active  the room is not matched (waiting or closed)
+--   not_your_turn    the current segment belongs to the other member
+--   empty_message    nothing to send
+-- Run after 016_message_client_id.sql
+-- =============================================
+
+DROP POLICY IF EXISTS "Members can send messages" ON messages;
+
+-- =============================================
+-- RPC: send_message
+-- Returns the stored row. A retry with a client_id that is already stored
+-- returns that row without re-checking the turn, since it was accepted then.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION send_message(
+  p_room_id uuid,
+  p_text text,
+  p_display_name text,
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS SETOF messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_status text;
+  v_speaker text;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room' USING HINT = 'not_a_member';
+  END IF;
+
+  IF p_client_id IS NOT NULL THEN
+    RETURN QUERY SELECT * FROM messages WHERE room_id = p_room_id AND client_id = p_client_id;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF coalesce(trim(p_text), '') = '' THEN
+    RAISE EXCEPTION 'Message is empty' USING HINT = 'empty_message';
+  END IF;
+
+  SELECT r.status, f.segments -> r.current_segment ->> 'speaker'
+  INTO v_status, v_speaker
+  FROM rooms r
+  JOIN conversation_formats f ON f.id = r.format_id
+  WHERE r.id = p_room_id;
+
+  IF v_status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active' USING HINT = 'room_not_active';
+  END IF;
+
+  IF v_speaker IS DISTINCT FROM v_role THEN
+    RAISE EXCEPTION 'It is not your turn to speak' USING HINT = 'not_your_turn';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO messages (room_id, user_id, display_name, text, client_id)
+  VALUES (p_room_id, v_user_id, p_display_name, p_text, p_client_id)
+  RETURNING *;
+END;
+$$;
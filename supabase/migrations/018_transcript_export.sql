@@ -0,0 +1,176 @@
+-- =============================================
+-- Transcript export for text chats
+-- room_segment_history records each segment as it starts so a transcript can
+-- show round and segment boundaries. Exporting needs both members' consent:
+-- each calls consent_transcript_export(), and get_room_transcript() only
+-- answers once both have. Consent rows keep each member's role and name, so
+-- the transcript can still be fetched after leave_room removes membership.
+-- Run after 017_send_message_turns.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS room_segment_history (
+  id bigserial PRIMARY KEY,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  round int NOT NULL,
+  segment int NOT NULL,
+  speaker text,
+  started_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_segment_history_room ON room_segment_history(room_id, started_at);
+
+ALTER TABLE room_segment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their room's segment history"
+  ON room_segment_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_members
+      WHERE room_members.room_id = room_segment_history.room_id
+      AND room_members.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_room_segment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'matched'
+    AND NEW.segment_start_at IS NOT NULL
+    AND NEW.segment_start_at IS DISTINCT FROM OLD.segment_start_at
+  THEN
+    INSERT INTO room_segment_history (room_id, round, segment, speaker, started_at)
+    SELECT NEW.id, NEW.round, NEW.current_segment, f.segments -> NEW.current_segment ->> 'speaker', NEW.segment_start_at
+    FROM conversation_formats f
+    WHERE f.id = NEW.format_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_record_segment ON rooms;
+CREATE TRIGGER rooms_record_segment
+  AFTER UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION record_room_segment();
+
+-- Only reachable through the RPCs below
+CREATE TABLE IF NOT EXISTS transcript_consents (
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL,
+  display_name text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE transcript_consents ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- RPC: get_transcript_consent
+-- Whether the caller and the other member have agreed to export
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_transcript_consent(p_room_id uuid)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    EXISTS (SELECT 1 FROM transcript_consents WHERE room_id = p_room_id AND user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM transcript_consents WHERE room_id = p_room_id AND user_id != auth.uid());
+$$;
+
+-- =============================================
+-- RPC: consent_transcript_export
+-- Used for both the request and the accept; idempotent
+-- =============================================
+
+CREATE OR REPLACE FUNCTION consent_transcript_export(p_room_id uuid)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  INSERT INTO transcript_consents (room_id, user_id, role, display_name)
+  SELECT rm.room_id, rm.user_id, rm.role, rm.display_name
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id AND rm.user_id = v_user_id
+  ON CONFLICT ON CONSTRAINT transcript_consents_pkey DO NOTHING;
+
+  IF NOT FOUND AND NOT EXISTS (
+    SELECT 1 FROM transcript_consents tc WHERE tc.room_id = p_room_id AND tc.user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_transcript_consent(p_room_id);
+END;
+$$;
+
+-- =============================================
+-- RPC: get_room_transcript
+-- Room info, both participants, segment history and messages as one JSON
+-- document, once both members have consented
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_room_transcript(p_room_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM transcript_consents WHERE room_id = p_room_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM transcript_consents WHERE room_id = p_room_id) < 2 THEN
+    RAISE EXCEPTION 'Both people must agree before exporting';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'room_id', r.id,
+    'format_id', r.format_id,
+    'mode', r.mode,
+    'participants', (
+      SELECT jsonb_agg(jsonb_build_object('role', tc.role, 'display_name', tc.display_name) ORDER BY tc.role)
+      FROM transcript_consents tc
+      WHERE tc.room_id = r.id
+    ),
+    'segments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'round', h.round,
+        'segment', h.segment,
+        'speaker', h.speaker,
+        'started_at', h.started_at
+      ) ORDER BY h.started_at, h.id)
+      FROM room_segment_history h
+      WHERE h.room_id = r.id
+    ), '[]'::jsonb),
+    'messages', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'role', tc.role,
+        'display_name', m.display_name,
+        'text', m.text,
+        'created_at', m.created_at
+      ) ORDER BY m.created_at)
+      FROM messages m
+      LEFT JOIN transcript_consents tc ON tc.room_id = m.room_id AND tc.user_id = m.user_id
+      WHERE m.room_id = r.id
+    ), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM rooms r
+  WHERE r.id = p_room_id;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- =============================================
+-- Post-conversation feedback
+-- After a room closes each member can rate it once: a 1-5 rating, whether
+-- they felt heard, whether the other person stayed on turn, and free text.
+-- Rows keep the room's format and mode so quality can be compared across
+-- them, and the rated user so reputation can feed into matching later.
+-- Membership is checked against recent_pairs, since leave_room has usually
+-- removed the caller from room_members by the time they answer.
+-- Run after 018_transcript_export.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS room_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  rater_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  ratee_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  format_id text,
+  mode text,
+  rating int NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  felt_heard boolean,
+  stayed_on_turn boolean,
+  comment text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (room_id, rater_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_feedback_ratee ON room_feedback(ratee_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_room_feedback_format_mode ON room_feedback(format_id, mode);
+
+ALTER TABLE room_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Raters can see what they submitted; feedback about you is never visible
+CREATE POLICY "Users can view their own feedback"
+  ON room_feedback FOR SELECT
+  USING (rater_id = auth.uid());
+
+-- =============================================
+-- RPC: submit_room_feedback
+-- Resubmitting for the same room replaces the earlier answers
+-- =============================================
+
+CREATE OR REPLACE FUNCTION submit_room_feedback(
+  p_room_id uuid,
+  p_rating int,
+  p_felt_heard boolean DEFAULT NULL,
+  p_stayed_on_turn boolean DEFAULT NULL,
+  p_comment text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_peer_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  SELECT CASE WHEN p.user_a = v_user_id THEN p.user_b ELSE p.user_a END
+  INTO v_peer_id
+  FROM recent_pairs p
+  WHERE p.room_id = p_room_id
+    AND (p.user_a = v_user_id OR p.user_b = v_user_id)
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  INSERT INTO room_feedback (room_id, rater_id, ratee_id, format_id, mode, rating, felt_heard, stayed_on_turn, comment)
+  SELECT r.id, v_user_id, v_peer_id, r.format_id, r.mode, p_rating, p_felt_heard, p_stayed_on_turn,
+    NULLIF(trim(p_comment), '')
+  FROM rooms r
+  WHERE r.id = p_room_id
+  ON CONFLICT (room_id, rater_id) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      felt_heard = EXCLUDED.felt_heard,
+      stayed_on_turn = EXCLUDED.stayed_on_turn,
+      comment = EXCLUDED.comment,
+      created_at = now();
+END;
+$$;
@@ -0,0 +1,202 @@
+-- =============================================
+-- Conversation prompts
+-- A library of prompts grouped into decks. Each round of a matched room gets
+-- one prompt, drawn on the server and stored on the room row so both members
+-- receive the same one over realtime. The current speaker can shuffle it.
+-- Topic decks carry an interest tag: a room whose shared tags include one
+-- draws from those decks, otherwise round 1 uses icebreakers and later rounds
+-- deep questions.
+-- Run after 019_room_feedback.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS prompt_decks (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  -- Set on topic decks; matched against rooms.shared_tags
+  interest_tag text,
+  sort_order int DEFAULT 0,
+  is_active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS conversation_prompts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deck_id text NOT NULL REFERENCES prompt_decks(id) ON DELETE CASCADE,
+  text text NOT NULL,
+  is_active boolean DEFAULT true,
+  UNIQUE (deck_id, text)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_prompts_deck ON conversation_prompts(deck_id);
+
+ALTER TABLE prompt_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_prompts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view prompt decks"
+  ON prompt_decks FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view conversation prompts"
+  ON conversation_prompts FOR SELECT
+  USING (true);
+
+INSERT INTO prompt_decks (id, name, description, interest_tag, sort_order) VALUES
+  ('icebreakers', 'Icebreakers', 'Light questions to get started.', NULL, 0),
+  ('deep', 'Deep questions', 'For once you have warmed up.', NULL, 1),
+  ('music', 'Music', NULL, 'music', 10),
+  ('books', 'Books', NULL, 'books', 11),
+  ('travel', 'Travel', NULL, 'travel', 12),
+  ('tech', 'Tech', NULL, 'tech', 13),
+  ('film', 'Film', NULL, 'film', 14),
+  ('food', 'Food', NULL, 'food', 15),
+  ('philosophy', 'Philosophy', NULL, 'philosophy', 16)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO conversation_prompts (deck_id, text) VALUES
+  ('icebreakers', 'What was the best part of your week so far?'),
+  ('icebreakers', 'What is something small that made you smile recently?'),
+  ('icebreakers', 'What are you looking forward to this month?'),
+  ('icebreakers', 'What is a hobby you would pick up if you had more time?'),
+  ('icebreakers', 'Describe your ideal lazy Sunday.'),
+  ('icebreakers', 'What is a skill you are secretly proud of?'),
+  ('deep', 'What is something you changed your mind about in the last few years?'),
+  ('deep', 'When did you last feel truly understood by someone?'),
+  ('deep', 'What would you do differently if nobody was watching?'),
+  ('deep', 'What is a lesson you keep having to relearn?'),
+  ('deep', 'What does a good life look like to you?'),
+  ('deep', 'What are you carrying right now that you would like to put down?'),
+  ('music', 'What song takes you straight back to a specific moment?'),
+  ('music', 'Which album would you hand a stranger to explain who you are?'),
+  ('books', 'What book changed how you see something?'),
+  ('books', 'Which character do you wish you could meet?'),
+  ('travel', 'Where did you feel most far from home, and how was it?'),
+  ('travel', 'What place surprised you the most?'),
+  ('tech', 'What piece of technology has changed your daily life the most?'),
+  ('tech', 'What should technology stop trying to do?'),
+  ('film', 'What film do you rewatch, and why that one?'),
+  ('film', 'Which scene has stayed with you for years?'),
+  ('food', 'What meal reminds you of someone you love?'),
+  ('food', 'What dish would you cook to impress someone?'),
+  ('philosophy', 'Is it more important to be right or to be kind?'),
+  ('philosophy', 'What do you think we owe to strangers?')
+ON CONFLICT (deck_id, text) DO NOTHING;
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS prompt_id uuid REFERENCES conversation_prompts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS prompt_text text;
+
+-- =============================================
+-- HELPER: pick_room_prompt
+-- A random active prompt for the round and shared tags, avoiding p_exclude
+-- when anything else is available
+-- =============================================
+
+CREATE OR REPLACE FUNCTION pick_room_prompt(p_round int, p_shared_tags text[], p_exclude uuid DEFAULT NULL)
+RETURNS conversation_prompts
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+AS $$
+  WITH eligible AS (
+    SELECT p.*, d.interest_tag
+    FROM conversation_prompts p
+    JOIN prompt_decks d ON d.id = p.deck_id
+    WHERE p.is_active AND d.is_active
+  ),
+  topical AS (
+    SELECT * FROM eligible WHERE interest_tag = ANY (coalesce(p_shared_tags, '{}'))
+  ),
+  pool AS (
+    SELECT * FROM topical
+    UNION ALL
+    SELECT * FROM eligible
+    WHERE NOT EXISTS (SELECT 1 FROM topical)
+      AND deck_id = CASE WHEN coalesce(p_round, 1) <= 1 THEN 'icebreakers' ELSE 'deep' END
+  )
+  SELECT id, deck_id, text, is_active
+  FROM pool
+  ORDER BY (id = p_exclude) NULLS FIRST, random()
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pick_room_prompt(int, text[], uuid) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- TRIGGER: draw a prompt when a room is matched and at each new round
+-- =============================================
+
+CREATE OR REPLACE FUNCTION draw_round_prompt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_prompt conversation_prompts;
+BEGIN
+  IF NEW.status = 'matched'
+    AND (OLD.status IS DISTINCT FROM 'matched' OR NEW.round IS DISTINCT FROM OLD.round)
+  THEN
+    v_prompt := pick_room_prompt(NEW.round, NEW.shared_tags, OLD.prompt_id);
+    NEW.prompt_id := v_prompt.id;
+    NEW.prompt_text := v_prompt.text;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_draw_round_prompt ON rooms;
+CREATE TRIGGER rooms_draw_round_prompt
+  BEFORE UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION draw_round_prompt();
+
+-- =============================================
+-- RPC: shuffle_prompt
+-- Only the member speaking in the current segment may draw a new prompt.
+-- Uses the same HINT codes as send_message. Returns the updated room.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION shuffle_prompt(p_room_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_room rooms;
+  v_speaker text;
+  v_prompt conversation_prompts;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room' USING HINT = 'not_a_member';
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active' USING HINT = 'room_not_active';
+  END IF;
+
+  SELECT f.segments -> v_room.current_segment ->> 'speaker'
+  INTO v_speaker
+  FROM conversation_formats f
+  WHERE f.id = v_room.format_id;
+
+  IF v_speaker IS DISTINCT FROM v_role THEN
+    RAISE EXCEPTION 'Only the speaker can shuffle the prompt' USING HINT = 'not_your_turn';
+  END IF;
+
+  v_prompt := pick_room_prompt(v_room.round, v_room.shared_tags, v_room.prompt_id);
+
+  RETURN QUERY
+  UPDATE rooms
+  SET prompt_id = v_prompt.id,
+      prompt_text = v_prompt.text
+  WHERE id = p_room_id
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,328 @@
+-- =============================================
+-- Mutual time extensions and pauses
+-- Either member can ask for +60s or a pause. The request is logged with
+-- request_time_change() and sent to the peer over the room channel; the peer
+-- answers with respond_time_change(), and only an accepted request moves the
+-- segment deadline. A paused room has no segment_ends_at, so neither the
+-- clients nor expire_stale_segments() can expire it. Either member may
+-- resume on their own, and long pauses resume automatically.
+-- Every request, answer and deadline change goes into room_events.
+-- Run after 020_conversation_prompts.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS room_events (
+  id bigserial PRIMARY KEY,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  -- NULL for changes made by the server on its own
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_events_room ON room_events(room_id, created_at);
+
+ALTER TABLE room_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their room's events"
+  ON room_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_members
+      WHERE room_members.room_id = room_events.room_id
+      AND room_members.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS paused_at timestamptz,
+  ADD COLUMN IF NOT EXISTS paused_remaining_ms int;
+
+ALTER TABLE matchmaking_settings
+  ADD COLUMN IF NOT EXISTS time_request_ttl_sec int NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS time_extension_sec int NOT NULL DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS max_pause_sec int NOT NULL DEFAULT 300;
+
+-- =============================================
+-- HELPER: log_room_event
+-- =============================================
+
+CREATE OR REPLACE FUNCTION log_room_event(p_room_id uuid, p_user_id uuid, p_kind text, p_payload jsonb DEFAULT '{}')
+RETURNS bigint
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO room_events (room_id, user_id, kind, payload)
+  VALUES (p_room_id, p_user_id, p_kind, coalesce(p_payload, '{}'))
+  RETURNING id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION log_room_event(uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- TRIGGER: a new segment always ends a pause
+-- Skips and expiry restart the clock through segment_start_at, and
+-- set_room_segment_deadline() gives the new segment its deadline.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION clear_room_pause()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.segment_start_at IS DISTINCT FROM OLD.segment_start_at THEN
+    NEW.paused_at := NULL;
+    NEW.paused_remaining_ms := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_clear_pause ON rooms;
+CREATE TRIGGER rooms_clear_pause
+  BEFORE UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION clear_room_pause();
+
+-- =============================================
+-- INTERNAL: resume_room_segment
+-- Restarts the countdown with the time that was left when it paused
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_room_segment(p_room_id uuid, p_user_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND paused_at IS NOT NULL) THEN
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  PERFORM log_room_event(p_room_id, p_user_id, 'resumed', jsonb_build_object(
+    'auto', p_user_id IS NULL
+  ));
+
+  RETURN QUERY
+  UPDATE rooms
+  SET segment_ends_at = now() + make_interval(secs => coalesce(paused_remaining_ms, 0) / 1000.0),
+      paused_at = NULL,
+      paused_remaining_ms = NULL
+  WHERE id = p_room_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resume_room_segment(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: request_time_change
+-- p_kind is 'extend' or 'pause'. Returns the request id the peer answers with.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION request_time_change(p_room_id uuid, p_kind text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_kind NOT IN ('extend', 'pause') THEN
+    RAISE EXCEPTION 'Unknown time request: %', p_kind;
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active';
+  END IF;
+
+  IF p_kind = 'pause' AND v_room.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The conversation is already paused';
+  END IF;
+
+  RETURN log_room_event(p_room_id, v_user_id, 'time_requested', jsonb_build_object(
+    'kind', p_kind,
+    'round', v_room.round,
+    'segment', v_room.current_segment
+  ));
+END;
+$$;
+
+-- =============================================
+-- RPC: respond_time_change
+-- Only the other member may answer, once, while the request is fresh and
+-- the room is still on the segment it was made in. Returns the room row.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION respond_time_change(p_room_id uuid, p_request_id bigint, p_accept boolean)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_request room_events;
+  v_kind text;
+  v_room rooms;
+  v_ttl_sec int;
+  v_extension_sec int;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT time_request_ttl_sec, time_extension_sec
+  INTO v_ttl_sec, v_extension_sec
+  FROM matchmaking_settings LIMIT 1;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  SELECT * INTO v_request
+  FROM room_events
+  WHERE id = p_request_id AND room_id = p_room_id AND kind = 'time_requested';
+
+  IF v_request.id IS NULL OR v_request.user_id = v_user_id THEN
+    RAISE EXCEPTION 'No such request from the other person';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_events
+    WHERE room_id = p_room_id
+      AND kind IN ('time_accepted', 'time_declined')
+      AND (payload ->> 'request_id')::bigint = p_request_id
+  ) THEN
+    RAISE EXCEPTION 'This request was already answered';
+  END IF;
+
+  IF v_request.created_at < now() - make_interval(secs => coalesce(v_ttl_sec, 30))
+    OR v_room.status IS DISTINCT FROM 'matched'
+    OR v_room.round IS DISTINCT FROM (v_request.payload ->> 'round')::int
+    OR v_room.current_segment IS DISTINCT FROM (v_request.payload ->> 'segment')::int
+  THEN
+    RAISE EXCEPTION 'This request has expired';
+  END IF;
+
+  v_kind := v_request.payload ->> 'kind';
+
+  IF NOT p_accept THEN
+    PERFORM log_room_event(p_room_id, v_user_id, 'time_declined', jsonb_build_object(
+      'request_id', p_request_id,
+      'kind', v_kind
+    ));
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  PERFORM log_room_event(p_room_id, v_user_id, 'time_accepted', jsonb_build_object(
+    'request_id', p_request_id,
+    'kind', v_kind
+  ));
+
+  IF v_kind = 'extend' THEN
+    v_extension_sec := coalesce(v_extension_sec, 60);
+    PERFORM log_room_event(p_room_id, NULL, 'segment_extended', jsonb_build_object(
+      'request_id', p_request_id,
+      'seconds', v_extension_sec
+    ));
+
+    -- A paused room keeps the extra time until it resumes
+    RETURN QUERY
+    UPDATE rooms
+    SET segment_ends_at = segment_ends_at + make_interval(secs => v_extension_sec),
+        paused_remaining_ms = paused_remaining_ms + v_extension_sec * 1000
+    WHERE id = p_room_id
+    RETURNING *;
+  ELSIF v_kind = 'pause' AND v_room.paused_at IS NULL THEN
+    PERFORM log_room_event(p_room_id, NULL, 'segment_paused', jsonb_build_object(
+      'request_id', p_request_id
+    ));
+
+    RETURN QUERY
+    UPDATE rooms
+    SET paused_at = now(),
+        paused_remaining_ms = greatest(0, floor(extract(epoch FROM segment_ends_at - now()) * 1000))::int,
+        segment_ends_at = NULL
+    WHERE id = p_room_id
+    RETURNING *;
+  ELSE
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- =============================================
+-- RPC: resume_segment
+-- Either member can end a pause without asking
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_segment(p_room_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  PERFORM 1 FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  RETURN QUERY SELECT * FROM resume_room_segment(p_room_id, v_user_id);
+END;
+$$;
+
+-- =============================================
+-- SCHEDULED: resume_expired_pauses
+-- Pauses longer than max_pause_sec resume on their own
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_expired_pauses()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_max_sec int;
+  v_room record;
+  v_count int := 0;
+BEGIN
+  SELECT max_pause_sec INTO v_max_sec FROM matchmaking_settings LIMIT 1;
+  v_max_sec := COALESCE(v_max_sec, 300);
+
+  FOR v_room IN
+    SELECT id FROM rooms
+    WHERE status = 'matched' AND paused_at < now() - make_interval(secs => v_max_sec)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM resume_room_segment(v_room.id, NULL);
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resume_expired_pauses() FROM PUBLIC, anon, authenticated;
+
+-- Requires pg_cron, same as 006
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('resume-expired-pauses', '10 seconds', 'SELECT resume_expired_pauses()');
+  END IF;
+END;
+$$;
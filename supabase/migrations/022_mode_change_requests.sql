@@ -0,0 +1,129 @@
+-- =============================================
+-- Switching a matched room's mode with consent
+-- Either member can propose moving the room to text, audio or video, up or
+-- down. It works like the time requests in 021: request_mode_change() logs
+-- the proposal, the peer answers with respond_mode_change(), and only an
+-- accepted proposal updates rooms.mode. Segment, round and deadline are left
+-- alone so the conversation carries on where it was.
+-- Run after 021_time_requests.sql
+-- =============================================
+
+-- =============================================
+-- RPC: request_mode_change
+-- Returns the request id the peer answers with
+-- =============================================
+
+CREATE OR REPLACE FUNCTION request_mode_change(p_room_id uuid, p_mode text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_mode NOT IN ('video', 'audio', 'text') THEN
+    RAISE EXCEPTION 'Unknown mode: %', p_mode;
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active';
+  END IF;
+
+  IF v_room.mode = p_mode THEN
+    RAISE EXCEPTION 'The conversation is already in % mode', p_mode;
+  END IF;
+
+  RETURN log_room_event(p_room_id, v_user_id, 'mode_requested', jsonb_build_object(
+    'from', v_room.mode,
+    'to', p_mode
+  ));
+END;
+$$;
+
+-- =============================================
+-- RPC: respond_mode_change
+-- Only the other member may answer, once, within time_request_ttl_sec and
+-- while the room is still in the mode the proposal started from. Returns the
+-- room row.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION respond_mode_change(p_room_id uuid, p_request_id bigint, p_accept boolean)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_request room_events;
+  v_room rooms;
+  v_ttl_sec int;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT time_request_ttl_sec INTO v_ttl_sec FROM matchmaking_settings LIMIT 1;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  SELECT * INTO v_request
+  FROM room_events
+  WHERE id = p_request_id AND room_id = p_room_id AND kind = 'mode_requested';
+
+  IF v_request.id IS NULL OR v_request.user_id = v_user_id THEN
+    RAISE EXCEPTION 'No such request from the other person';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_events
+    WHERE room_id = p_room_id
+      AND kind IN ('mode_accepted', 'mode_declined')
+      AND (payload ->> 'request_id')::bigint = p_request_id
+  ) THEN
+    RAISE EXCEPTION 'This request was already answered';
+  END IF;
+
+  IF v_request.created_at < now() - make_interval(secs => coalesce(v_ttl_sec, 30))
+    OR v_room.status IS DISTINCT FROM 'matched'
+    OR v_room.mode IS DISTINCT FROM v_request.payload ->> 'from'
+  THEN
+    RAISE EXCEPTION 'This request has expired';
+  END IF;
+
+  IF NOT p_accept THEN
+    PERFORM log_room_event(p_room_id, v_user_id, 'mode_declined', jsonb_build_object(
+      'request_id', p_request_id,
+      'to', v_request.payload ->> 'to'
+    ));
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  PERFORM log_room_event(p_room_id, v_user_id, 'mode_accepted', jsonb_build_object(
+    'request_id', p_request_id,
+    'to', v_request.payload ->> 'to'
+  ));
+  PERFORM log_room_event(p_room_id, NULL, 'mode_changed', jsonb_build_object(
+    'request_id', p_request_id,
+    'from', v_room.mode,
+    'to', v_request.payload ->> 'to'
+  ));
+
+  RETURN QUERY
+  UPDATE rooms
+  SET mode = v_request.payload ->> 'to'
+  WHERE id = p_room_id
+  RETURNING *;
+END;
+$$;
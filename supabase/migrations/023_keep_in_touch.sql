@@ -0,0 +1,618 @@
+-- =============================================
+-- Keep in touch
+-- After (or during) a conversation each member can ask to keep in touch.
+-- When both have, a connection is created. Either side can then invite the
+-- other into a new room: a private waiting room that the matcher skips and
+-- only the invited person can join with accept_connection_invite().
+-- Membership is checked against recent_pairs, like room feedback in 019, so
+-- this also works after leave_room.
+-- Run after 022_mode_change_requests.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS is_private boolean NOT NULL DEFAULT false;
+
+-- Only reachable through the RPCs below
+CREATE TABLE IF NOT EXISTS keep_in_touch_consents (
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE keep_in_touch_consents ENABLE ROW LEVEL SECURITY;
+
+-- One row per pair, user_a < user_b. Names are the ones used when connecting.
+CREATE TABLE IF NOT EXISTS connections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_a uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_b uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_a_name text,
+  user_b_name text,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_a, user_b),
+  CHECK (user_a < user_b)
+);
+
+ALTER TABLE connections ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS connection_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id uuid NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  inviter_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invitee_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_connection_invites_invitee ON connection_invites(invitee_id) WHERE status = 'pending';
+
+ALTER TABLE connection_invites ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- HELPER: room_partner_id
+-- The other person the user was paired with in a room, or NULL
+-- =============================================
+
+CREATE OR REPLACE FUNCTION room_partner_id(p_room_id uuid, p_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE WHEN p.user_a = p_user_id THEN p.user_b ELSE p.user_a END
+  FROM recent_pairs p
+  WHERE p.room_id = p_room_id
+    AND (p.user_a = p_user_id OR p.user_b = p_user_id)
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION room_partner_id(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: get_keep_in_touch_consent
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_keep_in_touch_consent(p_room_id uuid)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    EXISTS (SELECT 1 FROM keep_in_touch_consents WHERE room_id = p_room_id AND user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM keep_in_touch_consents WHERE room_id = p_room_id AND user_id != auth.uid());
+$$;
+
+-- =============================================
+-- RPC: keep_in_touch
+-- Records the caller's consent and creates the connection once both agree
+-- =============================================
+
+CREATE OR REPLACE FUNCTION keep_in_touch(p_room_id uuid, p_display_name text)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_peer_id uuid;
+  v_peer_name text;
+BEGIN
+  v_peer_id := room_partner_id(p_room_id, v_user_id);
+
+  IF v_peer_id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF is_blocked_pair(v_user_id, v_peer_id) THEN
+    RAISE EXCEPTION 'Cannot keep in touch with this person';
+  END IF;
+
+  INSERT INTO keep_in_touch_consents (room_id, user_id, display_name)
+  VALUES (p_room_id, v_user_id, p_display_name)
+  ON CONFLICT ON CONSTRAINT keep_in_touch_consents_pkey DO NOTHING;
+
+  SELECT display_name INTO v_peer_name
+  FROM keep_in_touch_consents
+  WHERE room_id = p_room_id AND user_id = v_peer_id;
+
+  IF FOUND THEN
+    INSERT INTO connections (user_a, user_b, user_a_name, user_b_name, room_id)
+    SELECT
+      least(v_user_id, v_peer_id),
+      greatest(v_user_id, v_peer_id),
+      CASE WHEN v_user_id < v_peer_id THEN p_display_name ELSE v_peer_name END,
+      CASE WHEN v_user_id < v_peer_id THEN v_peer_name ELSE p_display_name END,
+      p_room_id
+    ON CONFLICT (user_a, user_b) DO UPDATE
+    SET user_a_name = EXCLUDED.user_a_name,
+        user_b_name = EXCLUDED.user_b_name,
+        room_id = EXCLUDED.room_id;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_keep_in_touch_consent(p_room_id);
+END;
+$$;
+
+-- =============================================
+-- RPC: get_connections
+-- The caller's connections, newest first, with any invite still open in
+-- either direction. Invites whose room is no longer waiting are left out.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_connections()
+RETURNS TABLE (
+  connection_id uuid,
+  peer_name text,
+  connected_at timestamptz,
+  incoming_invite_id uuid,
+  incoming_invite_mode text,
+  outgoing_invite_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    c.id,
+    CASE WHEN c.user_a = auth.uid() THEN c.user_b_name ELSE c.user_a_name END,
+    c.created_at,
+    incoming.id,
+    incoming.mode,
+    outgoing.id
+  FROM connections c
+  LEFT JOIN LATERAL (
+    SELECT i.id, r.mode
+    FROM connection_invites i
+    JOIN rooms r ON r.id = i.room_id
+    WHERE i.connection_id = c.id AND i.invitee_id = auth.uid()
+      AND i.status = 'pending' AND r.status = 'waiting'
+    ORDER BY i.created_at DESC
+    LIMIT 1
+  ) incoming ON true
+  LEFT JOIN LATERAL (
+    SELECT i.id
+    FROM connection_invites i
+    JOIN rooms r ON r.id = i.room_id
+    WHERE i.connection_id = c.id AND i.inviter_id = auth.uid()
+      AND i.status = 'pending' AND r.status = 'waiting'
+    ORDER BY i.created_at DESC
+    LIMIT 1
+  ) outgoing ON true
+  WHERE (c.user_a = auth.uid() OR c.user_b = auth.uid())
+    AND NOT is_blocked_pair(c.user_a, c.user_b)
+  ORDER BY c.created_at DESC;
+$$;
+
+-- =============================================
+-- RPC: remove_connection
+-- =============================================
+
+CREATE OR REPLACE FUNCTION remove_connection(p_connection_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  DELETE FROM connections
+  WHERE id = p_connection_id AND (user_a = auth.uid() OR user_b = auth.uid());
+$$;
+
+-- =============================================
+-- INTERNAL: create_private_room
+-- The create branch of match_or_create_room for a room the matcher skips
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_private_room(
+  p_user_id uuid,
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_first_duration int;
+  v_room_id uuid;
+BEGIN
+  IF p_mode NOT IN ('video', 'audio', 'text') THEN
+    RAISE EXCEPTION 'Unknown mode: %', p_mode;
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, is_private)
+  VALUES (p_mode, 'waiting', p_format_id, v_first_duration, ARRAY[p_mode], true)
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO room_members (room_id, user_id, display_name, role)
+  VALUES (v_room_id, p_user_id, p_display_name, 'user1');
+
+  RETURN v_room_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_private_room(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- INTERNAL: join_private_room
+-- The join branch of match_or_create_room for a private room the caller
+-- has been let into. Returns the same row shape as the matcher.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION join_private_room(p_room_id uuid, p_user_id uuid, p_display_name text)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room rooms;
+  v_host_id uuid;
+  v_host_name text;
+  v_stale_sec int;
+  v_first_duration int;
+BEGIN
+  SELECT heartbeat_stale_sec INTO v_stale_sec FROM matchmaking_settings LIMIT 1;
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  SELECT rm.user_id, rm.display_name INTO v_host_id, v_host_name
+  FROM room_members rm
+  WHERE rm.room_id = p_room_id
+    AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec);
+
+  IF v_room.status IS DISTINCT FROM 'waiting' OR NOT v_room.is_private OR v_host_id IS NULL THEN
+    RAISE EXCEPTION 'This room is no longer open';
+  END IF;
+
+  IF v_host_id = p_user_id THEN
+    RAISE EXCEPTION 'You cannot join your own room';
+  END IF;
+
+  IF is_blocked_pair(p_user_id, v_host_id) THEN
+    RAISE EXCEPTION 'This room is no longer open';
+  END IF;
+
+  SELECT (f.segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats f
+  WHERE f.id = v_room.format_id;
+
+  INSERT INTO room_members (room_id, user_id, display_name, role)
+  VALUES (p_room_id, p_user_id, p_display_name, 'user2');
+
+  UPDATE rooms
+  SET status = 'matched',
+      segment_start_at = now(),
+      segment_duration_sec = v_first_duration,
+      current_segment = 0,
+      round = 1
+  WHERE id = p_room_id;
+
+  INSERT INTO recent_pairs (room_id, user_a, user_b)
+  VALUES (p_room_id, v_host_id, p_user_id);
+
+  RETURN QUERY SELECT p_room_id, 'user2'::text, true, v_host_name, v_room.mode, '{}'::text[];
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION join_private_room(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: send_connection_invite
+-- Opens a private room with the caller as user1 and invites the other side
+-- of the connection. Earlier open invites from the caller are cancelled.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION send_connection_invite(
+  p_connection_id uuid,
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_connection connections;
+  v_invitee_id uuid;
+  v_room_id uuid;
+BEGIN
+  SELECT * INTO v_connection
+  FROM connections
+  WHERE id = p_connection_id AND (user_a = v_user_id OR user_b = v_user_id);
+
+  IF v_connection.id IS NULL THEN
+    RAISE EXCEPTION 'No such connection';
+  END IF;
+
+  v_invitee_id := CASE WHEN v_connection.user_a = v_user_id THEN v_connection.user_b ELSE v_connection.user_a END;
+
+  IF is_blocked_pair(v_user_id, v_invitee_id) THEN
+    RAISE EXCEPTION 'No such connection';
+  END IF;
+
+  UPDATE connection_invites
+  SET status = 'cancelled'
+  WHERE connection_id = p_connection_id AND inviter_id = v_user_id AND status = 'pending';
+
+  v_room_id := create_private_room(v_user_id, p_mode, p_display_name, p_format_id);
+
+  INSERT INTO connection_invites (connection_id, inviter_id, invitee_id, room_id)
+  VALUES (p_connection_id, v_user_id, v_invitee_id, v_room_id);
+
+  RETURN QUERY SELECT v_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+END;
+$$;
+
+-- =============================================
+-- RPC: accept_connection_invite
+-- =============================================
+
+CREATE OR REPLACE FUNCTION accept_connection_invite(p_invite_id uuid, p_display_name text)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite connection_invites;
+BEGIN
+  SELECT * INTO v_invite
+  FROM connection_invites
+  WHERE id = p_invite_id AND invitee_id = v_user_id
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL OR v_invite.status != 'pending' THEN
+    RAISE EXCEPTION 'This invite is no longer open';
+  END IF;
+
+  UPDATE connection_invites SET status = 'accepted' WHERE id = p_invite_id;
+
+  RETURN QUERY SELECT * FROM join_private_room(v_invite.room_id, v_user_id, p_display_name);
+END;
+$$;
+
+-- =============================================
+-- RPC: decline_connection_invite
+-- Closes the waiting room so the inviter's realtime flow sees it end
+-- =============================================
+
+CREATE OR REPLACE FUNCTION decline_connection_invite(p_invite_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  UPDATE connection_invites
+  SET status = 'declined'
+  WHERE id = p_invite_id AND invitee_id = auth.uid() AND status = 'pending'
+  RETURNING room_id INTO v_room_id;
+
+  UPDATE rooms
+  SET status = 'closed'
+  WHERE id = v_room_id AND status = 'waiting';
+END;
+$$;
+
+-- =============================================
+-- QUEUE STATUS: private rooms are not in the queue
+-- Same signature as 012
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_queue_status(p_room_id uuid)
+RETURNS TABLE (queue_position int, waiting_count int, waited_sec int, estimated_wait_sec int)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms%ROWTYPE;
+  v_median_sec double precision;
+BEGIN
+  SELECT r.* INTO v_room
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.id = p_room_id AND rm.user_id = v_user_id;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF v_room.status != 'waiting' OR v_room.is_private THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE r.created_at <= v_room.created_at)::int,
+    COUNT(*)::int
+  INTO queue_position, waiting_count
+  FROM rooms r
+  WHERE r.status = 'waiting'
+    AND NOT r.is_private
+    AND r.format_id = v_room.format_id
+    AND r.acceptable_modes && v_room.acceptable_modes;
+
+  waited_sec := GREATEST(0, EXTRACT(EPOCH FROM now() - v_room.created_at))::int;
+
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r.matched_at - r.created_at))
+  INTO v_median_sec
+  FROM rooms r
+  WHERE r.matched_at >= now() - interval '1 hour'
+    AND r.mode = ANY (v_room.acceptable_modes);
+
+  IF v_median_sec IS NOT NULL THEN
+    -- Each room ahead of us needs roughly one typical match before our turn
+    estimated_wait_sec := GREATEST(0, ceil(v_median_sec * queue_position - waited_sec))::int;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room skips private rooms
+-- Same signature as 013
+-- =============================================
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}',
+  p_mode_widen_after_sec int DEFAULT NULL
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_my_modes text[] := widened_modes(p_mode, 0);
+  v_room_mode text;
+  v_room_modes text[];
+  v_widen_after_sec int;
+  v_stale_sec int;
+  v_recent_partners uuid[];
+  v_existing_room_id uuid;
+  v_peer_user_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec, heartbeat_stale_sec
+  INTO v_widen_after_sec, v_stale_sec
+  FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  v_recent_partners := ARRAY(SELECT recent_partner_ids(v_user_id));
+
+  -- Bring opted-in waiting rooms' acceptable modes up to date before searching
+  PERFORM widen_waiting_rooms();
+
+  -- Look for a waiting room that:
+  -- 1. Accepts a mode we accept (its set may have widened while it waited)
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- 6. Neither user has blocked the other
+  -- 7. Its member has sent a heartbeat recently
+  -- 8. It is not a private room waiting for an invited guest
+  -- Recent partners sort last, so they are only picked when nobody else is waiting.
+  -- Otherwise rooms with more shared tags win, then the oldest.
+  SELECT r.id, rm.user_id, rm.display_name, r.mode, r.acceptable_modes, rm.interest_tags
+  INTO v_existing_room_id, v_peer_user_id, v_peer_name, v_room_mode, v_room_modes, v_peer_tags
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND NOT r.is_private
+    AND r.acceptable_modes && v_my_modes
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+    AND NOT is_blocked_pair(v_user_id, rm.user_id)
+    AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+  ORDER BY
+    (rm.user_id = ANY (v_recent_partners)) ASC,
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode: the waiting user's original choice if we
+    -- accept it, else ours if their widened set allows it, else video > audio > text
+    v_actual_mode := CASE
+      WHEN v_room_mode != 'any' AND v_room_mode = ANY (v_my_modes) THEN v_room_mode
+      WHEN p_mode != 'any' AND p_mode = ANY (v_room_modes) THEN p_mode
+      ELSE (
+        SELECT m FROM unnest(ARRAY['video', 'audio', 'text']) WITH ORDINALITY AS o(m, pos)
+        WHERE m = ANY (v_room_modes) AND m = ANY (v_my_modes)
+        ORDER BY pos
+        LIMIT 1
+      )
+    END;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_existing_room_id, v_peer_user_id, v_user_id);
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, mode_widen_after_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration, v_my_modes, NULLIF(p_mode_widen_after_sec, 0))
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
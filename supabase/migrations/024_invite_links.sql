@@ -0,0 +1,95 @@
+-- =============================================
+-- Private invite-link rooms
+-- Anyone can open a private room and share its /r/:code link with a person
+-- they know. The room waits like any other, but the matcher skips private
+-- rooms (023), so only someone holding the code can join it, as user2.
+-- Run after 023_keep_in_touch.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS invite_code text UNIQUE;
+
+-- =============================================
+-- RPC: create_invite_room
+-- Returns the same row shape as match_or_create_room; the code is on the
+-- room row
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_invite_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+  v_code text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  v_room_id := create_private_room(v_user_id, p_mode, p_display_name, p_format_id);
+
+  LOOP
+    v_code := substr(md5(gen_random_uuid()::text), 1, 10);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM rooms WHERE invite_code = v_code);
+  END LOOP;
+
+  UPDATE rooms SET invite_code = v_code WHERE id = v_room_id;
+
+  RETURN QUERY SELECT v_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+END;
+$$;
+
+-- =============================================
+-- RPC: get_invite_room
+-- What the join page shows before joining. No row for an unknown code.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_invite_room(p_code text)
+RETURNS TABLE (host_name text, mode text, format_id text, is_open boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    rm.display_name,
+    r.mode,
+    r.format_id,
+    r.status = 'waiting'
+  FROM rooms r
+  LEFT JOIN room_members rm ON rm.room_id = r.id AND rm.role = 'user1'
+  WHERE r.invite_code = p_code AND r.is_private;
+$$;
+
+-- =============================================
+-- RPC: join_invite_room
+-- =============================================
+
+CREATE OR REPLACE FUNCTION join_invite_room(p_code text, p_display_name text)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT id INTO v_room_id FROM rooms WHERE invite_code = p_code AND is_private;
+
+  IF v_room_id IS NULL THEN
+    RAISE EXCEPTION 'This room is no longer open';
+  END IF;
+
+  RETURN QUERY SELECT * FROM join_private_room(v_room_id, v_user_id, p_display_name);
+END;
+$$;
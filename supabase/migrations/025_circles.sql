@@ -0,0 +1,572 @@
+-- =============================================
+-- Circles: 3-6 person rooms with a rotating turn
+-- A circle is a room with circle_size set. Members take seats user1..userN
+-- and circle_seats lists the occupied seats in speaking order. A circle
+-- format has a single segment that serves as the template for each turn:
+-- room_segments() expands it into one segment per seat, so everything that
+-- used to read conversation_formats.segments directly (the segment clock,
+-- skips, turn checks on messages and prompts) now works for both pairs and
+-- circles. A waiting circle starts once every seat is taken. When someone
+-- leaves a running circle their seat is dropped and the turn order closes
+-- up around them.
+-- Run after 024_invite_links.sql
+-- =============================================
+
+ALTER TABLE room_members DROP CONSTRAINT IF EXISTS room_members_role_check;
+ALTER TABLE room_members
+  ADD CONSTRAINT room_members_role_check CHECK (role IN ('user1', 'user2', 'user3', 'user4', 'user5', 'user6'));
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS circle_size int CHECK (circle_size BETWEEN 3 AND 6),
+  ADD COLUMN IF NOT EXISTS circle_seats text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_rooms_waiting_circles ON rooms(circle_size, mode) WHERE status = 'waiting' AND circle_size IS NOT NULL;
+
+-- Circle formats are never offered for 1:1 matching
+ALTER TABLE conversation_formats
+  ADD COLUMN IF NOT EXISTS for_circles boolean NOT NULL DEFAULT false;
+
+INSERT INTO conversation_formats (id, name, description, segments, sort_order, for_circles) VALUES
+(
+  'circle',
+  'Circle',
+  'Everyone gets 90 seconds in turn while the others listen.',
+  '[
+    { "speaker": "user1", "duration_sec": 90, "skippable_by": ["user1"], "prompt": null }
+  ]'::jsonb,
+  100,
+  true
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- =============================================
+-- HELPER: room_segments
+-- The room's segments in order. For a circle, one copy of the format's
+-- template per occupied seat, spoken and skippable by that seat.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION room_segments(p_room_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE
+    WHEN r.circle_size IS NULL THEN f.segments
+    ELSE (
+      SELECT coalesce(
+        jsonb_agg(
+          (f.segments -> 0) || jsonb_build_object('speaker', s.seat, 'skippable_by', jsonb_build_array(s.seat))
+          ORDER BY s.ord
+        ),
+        '[]'::jsonb
+      )
+      FROM unnest(r.circle_seats) WITH ORDINALITY AS s(seat, ord)
+    )
+  END
+  FROM rooms r
+  JOIN conversation_formats f ON f.id = r.format_id
+  WHERE r.id = p_room_id;
+$$;
+
+-- =============================================
+-- HELPER: circle_seats_in_order
+-- Seats are numbered, so user2 speaks before user10 would
+-- =============================================
+
+CREATE OR REPLACE FUNCTION circle_seats_in_order(p_room_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT coalesce(array_agg(role ORDER BY substr(role, 5)::int), '{}')
+  FROM room_members
+  WHERE room_id = p_room_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION circle_seats_in_order(uuid) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- INTERNAL: advance_room_segment
+-- Same as 007, with the segment list from room_segments()
+-- =============================================
+
+CREATE OR REPLACE FUNCTION advance_room_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_segments jsonb;
+  v_count int;
+  v_next int;
+BEGIN
+  v_segments := room_segments(p_room_id);
+  v_count := coalesce(jsonb_array_length(v_segments), 0);
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Room has no conversation format';
+  END IF;
+
+  v_next := (p_expected_segment + 1) % v_count;
+
+  RETURN QUERY
+  UPDATE rooms
+  SET current_segment = v_next,
+      round = round + CASE WHEN v_next = 0 THEN 1 ELSE 0 END,
+      segment_duration_sec = (v_segments -> v_next ->> 'duration_sec')::int,
+      segment_start_at = now()
+  WHERE id = p_room_id
+    AND status = 'matched'
+    AND current_segment = p_expected_segment
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION advance_room_segment(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: advance_segment (skip)
+-- Same as 007, with the segment from room_segments()
+-- =============================================
+
+CREATE OR REPLACE FUNCTION advance_segment(
+  p_room_id uuid,
+  p_expected_segment int
+)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_segment jsonb;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT room_segments(r.id) -> r.current_segment INTO v_segment
+  FROM rooms r
+  WHERE r.id = p_room_id
+  FOR UPDATE;
+
+  IF v_segment IS NULL OR NOT (v_segment -> 'skippable_by') ? v_role THEN
+    RAISE EXCEPTION 'You cannot skip this segment';
+  END IF;
+
+  PERFORM advance_room_segment(p_room_id, p_expected_segment);
+
+  RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+-- =============================================
+-- RPC: send_message
+-- Same as 017, with the speaker from room_segments()
+-- =============================================
+
+CREATE OR REPLACE FUNCTION send_message(
+  p_room_id uuid,
+  p_text text,
+  p_display_name text,
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS SETOF messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_status text;
+  v_speaker text;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room' USING HINT = 'not_a_member';
+  END IF;
+
+  IF p_client_id IS NOT NULL THEN
+    RETURN QUERY SELECT * FROM messages WHERE room_id = p_room_id AND client_id = p_client_id;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF coalesce(trim(p_text), '') = '' THEN
+    RAISE EXCEPTION 'Message is empty' USING HINT = 'empty_message';
+  END IF;
+
+  SELECT r.status, room_segments(r.id) -> r.current_segment ->> 'speaker'
+  INTO v_status, v_speaker
+  FROM rooms r
+  WHERE r.id = p_room_id;
+
+  IF v_status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active' USING HINT = 'room_not_active';
+  END IF;
+
+  IF v_speaker IS DISTINCT FROM v_role THEN
+    RAISE EXCEPTION 'It is not your turn to speak' USING HINT = 'not_your_turn';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO messages (room_id, user_id, display_name, text, client_id)
+  VALUES (p_room_id, v_user_id, p_display_name, p_text, p_client_id)
+  RETURNING *;
+END;
+$$;
+
+-- =============================================
+-- RPC: shuffle_prompt
+-- Same as 020, with the speaker from room_segments()
+-- =============================================
+
+CREATE OR REPLACE FUNCTION shuffle_prompt(p_room_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_room rooms;
+  v_speaker text;
+  v_prompt conversation_prompts;
+BEGIN
+  SELECT role INTO v_role
+  FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id;
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room' USING HINT = 'not_a_member';
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active' USING HINT = 'room_not_active';
+  END IF;
+
+  v_speaker := room_segments(p_room_id) -> v_room.current_segment ->> 'speaker';
+
+  IF v_speaker IS DISTINCT FROM v_role THEN
+    RAISE EXCEPTION 'Only the speaker can shuffle the prompt' USING HINT = 'not_your_turn';
+  END IF;
+
+  v_prompt := pick_room_prompt(v_room.round, v_room.shared_tags, v_room.prompt_id);
+
+  RETURN QUERY
+  UPDATE rooms
+  SET prompt_id = v_prompt.id,
+      prompt_text = v_prompt.text
+  WHERE id = p_room_id
+  RETURNING *;
+END;
+$$;
+
+-- =============================================
+-- TRIGGER: record_room_segment
+-- Same as 018, with the speaker from room_segments()
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_room_segment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'matched'
+    AND NEW.segment_start_at IS NOT NULL
+    AND NEW.segment_start_at IS DISTINCT FROM OLD.segment_start_at
+  THEN
+    INSERT INTO room_segment_history (room_id, round, segment, speaker, started_at)
+    VALUES (
+      NEW.id,
+      NEW.round,
+      NEW.current_segment,
+      room_segments(NEW.id) -> NEW.current_segment ->> 'speaker',
+      NEW.segment_start_at
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================
+-- INTERNAL: remove_circle_seat
+-- Drops a seat that has already lost its member. Everyone keeps their place
+-- in the order; if it was the speaker's seat, the next seat starts a turn.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION remove_circle_seat(p_room_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room rooms;
+  v_index int;
+  v_seats text[];
+  v_count int;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  v_index := array_position(v_room.circle_seats, p_role) - 1;
+  IF v_index IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_seats := array_remove(v_room.circle_seats, p_role);
+  v_count := cardinality(v_seats);
+
+  IF v_room.status IS DISTINCT FROM 'matched' OR v_count = 0 OR v_index > v_room.current_segment THEN
+    UPDATE rooms SET circle_seats = v_seats WHERE id = p_room_id;
+  ELSIF v_index < v_room.current_segment THEN
+    UPDATE rooms
+    SET circle_seats = v_seats,
+        current_segment = current_segment - 1
+    WHERE id = p_room_id;
+  ELSE
+    -- The speaker left; the next seat takes over, wrapping into a new round
+    UPDATE rooms
+    SET circle_seats = v_seats,
+        current_segment = current_segment % v_count,
+        round = round + CASE WHEN current_segment >= v_count THEN 1 ELSE 0 END,
+        segment_start_at = now()
+    WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION remove_circle_seat(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: leave_room
+-- Same as 001 for pairs. A circle keeps going while two members remain,
+-- and a waiting circle stays open while anyone is still waiting in it.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION leave_room(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+BEGIN
+  PERFORM 1 FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  -- Remove user from room
+  DELETE FROM room_members
+  WHERE room_id = p_room_id AND user_id = v_user_id
+  RETURNING role INTO v_role;
+
+  IF v_role IS NOT NULL AND EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND circle_size IS NOT NULL) THEN
+    PERFORM remove_circle_seat(p_room_id, v_role);
+  END IF;
+
+  UPDATE rooms
+  SET status = 'closed'
+  WHERE id = p_room_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = p_room_id
+    ) < CASE WHEN status = 'waiting' AND circle_size IS NOT NULL THEN 1 ELSE 2 END;
+END;
+$$;
+
+-- =============================================
+-- INTERNAL: prune_waiting_circles
+-- Frees seats in waiting circles whose members stopped sending heartbeats,
+-- and closes circles nobody is waiting in any more
+-- =============================================
+
+CREATE OR REPLACE FUNCTION prune_waiting_circles()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stale_sec int;
+  v_room_id uuid;
+BEGIN
+  SELECT heartbeat_stale_sec INTO v_stale_sec FROM matchmaking_settings LIMIT 1;
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  FOR v_room_id IN
+    DELETE FROM room_members rm
+    USING rooms r
+    WHERE r.id = rm.room_id
+      AND r.status = 'waiting'
+      AND r.circle_size IS NOT NULL
+      AND rm.last_seen_at < now() - make_interval(secs => v_stale_sec)
+    RETURNING rm.room_id
+  LOOP
+    UPDATE rooms
+    SET circle_seats = circle_seats_in_order(v_room_id),
+        status = CASE WHEN cardinality(circle_seats_in_order(v_room_id)) = 0 THEN 'closed' ELSE status END
+    WHERE id = v_room_id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prune_waiting_circles() FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: join_circle
+-- Takes the lowest free seat in the fullest waiting circle of this size and
+-- mode, or opens a new one. The circle starts when the last seat is taken.
+-- Returns the same row shape as match_or_create_room; peer_name is always
+-- NULL since there is more than one peer.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION join_circle(p_mode text, p_display_name text, p_size int)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms;
+  v_seat text;
+  v_seats text[];
+  v_turn_sec int;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF p_mode NOT IN ('video', 'audio', 'text') THEN
+    RAISE EXCEPTION 'Unknown mode: %', p_mode;
+  END IF;
+
+  IF p_size NOT BETWEEN 3 AND 6 THEN
+    RAISE EXCEPTION 'Circles have 3 to 6 people';
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_turn_sec
+  FROM conversation_formats
+  WHERE id = 'circle' AND is_active;
+
+  IF v_turn_sec IS NULL THEN
+    RAISE EXCEPTION 'Circles are not available right now';
+  END IF;
+
+  PERFORM prune_waiting_circles();
+
+  SELECT r.* INTO v_room
+  FROM rooms r
+  WHERE r.status = 'waiting'
+    AND r.circle_size = p_size
+    AND r.mode = p_mode
+    AND cardinality(r.circle_seats) < r.circle_size
+    AND NOT EXISTS (
+      SELECT 1 FROM room_members rm
+      WHERE rm.room_id = r.id
+        AND (rm.user_id = v_user_id OR is_blocked_pair(v_user_id, rm.user_id))
+    )
+  ORDER BY cardinality(r.circle_seats) DESC, r.created_at ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_room.id IS NULL THEN
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, circle_size, circle_seats)
+    VALUES (p_mode, 'waiting', 'circle', v_turn_sec, ARRAY[p_mode], p_size, ARRAY['user1'])
+    RETURNING * INTO v_room;
+
+    INSERT INTO room_members (room_id, user_id, display_name, role)
+    VALUES (v_room.id, v_user_id, p_display_name, 'user1');
+
+    RETURN QUERY SELECT v_room.id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+    RETURN;
+  END IF;
+
+  SELECT 'user' || n INTO v_seat
+  FROM generate_series(1, v_room.circle_size) AS n
+  WHERE NOT ('user' || n) = ANY (v_room.circle_seats)
+  ORDER BY n
+  LIMIT 1;
+
+  INSERT INTO room_members (room_id, user_id, display_name, role)
+  VALUES (v_room.id, v_user_id, p_display_name, v_seat);
+
+  v_seats := circle_seats_in_order(v_room.id);
+
+  IF cardinality(v_seats) < v_room.circle_size THEN
+    UPDATE rooms SET circle_seats = v_seats WHERE id = v_room.id;
+    RETURN QUERY SELECT v_room.id, v_seat, false, NULL::text, p_mode, '{}'::text[];
+    RETURN;
+  END IF;
+
+  UPDATE rooms
+  SET circle_seats = v_seats,
+      status = 'matched',
+      segment_start_at = now(),
+      segment_duration_sec = v_turn_sec,
+      current_segment = 0,
+      round = 1
+  WHERE id = v_room.id;
+
+  RETURN QUERY SELECT v_room.id, v_seat, true, NULL::text, p_mode, '{}'::text[];
+END;
+$$;
+
+-- =============================================
+-- RPC: resume_room
+-- Same as 014, except a circle has no single peer name
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_room()
+RETURNS TABLE (room_id uuid, role text, display_name text, interest_tags text[], peer_name text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  RETURN QUERY
+  UPDATE room_members me
+  SET last_seen_at = now()
+  WHERE me.user_id = v_user_id
+    AND me.room_id = (
+      SELECT rm.room_id
+      FROM room_members rm
+      JOIN rooms open_room ON open_room.id = rm.room_id
+      WHERE rm.user_id = v_user_id
+        AND open_room.status IN ('waiting', 'matched')
+      ORDER BY rm.joined_at DESC
+      LIMIT 1
+    )
+  RETURNING
+    me.room_id,
+    me.role,
+    me.display_name,
+    me.interest_tags,
+    (
+      SELECT peer.display_name
+      FROM room_members peer
+      JOIN rooms peer_room ON peer_room.id = peer.room_id
+      WHERE peer.room_id = me.room_id
+        AND peer.user_id != v_user_id
+        AND peer_room.circle_size IS NULL
+    );
+END;
+$$;
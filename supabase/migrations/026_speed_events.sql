@@ -0,0 +1,423 @@
+-- =============================================
+-- Speed-chat events
+-- An event has a start time, a round length, a break between rounds and a
+-- number of rounds, and is shared with a /e/:code link. At the start of each
+-- round everyone in the lobby is paired with someone they haven't met yet at
+-- this event and put into a private room; at the end of the round those rooms
+-- close and everyone is back in the lobby until the next one.
+-- There is no scheduler: every participant calls sync_event() while the event
+-- runs, and the first call past a round boundary does the rotation.
+-- Run after 025_circles.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  title text NOT NULL,
+  mode text NOT NULL CHECK (mode IN ('video', 'audio', 'text')),
+  format_id text NOT NULL DEFAULT 'classic' REFERENCES conversation_formats(id),
+  starts_at timestamptz NOT NULL,
+  round_sec int NOT NULL CHECK (round_sec BETWEEN 60 AND 1800),
+  break_sec int NOT NULL CHECK (break_sec BETWEEN 10 AND 300),
+  round_count int NOT NULL CHECK (round_count BETWEEN 1 AND 20),
+  -- The last round rooms were made for; 0 before the first
+  current_round int NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'running', 'ended')),
+  host_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS event_participants (
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text,
+  joined_at timestamptz DEFAULT now(),
+  last_seen_at timestamptz DEFAULT now(),
+  left_at timestamptz,
+  PRIMARY KEY (event_id, user_id)
+);
+
+ALTER TABLE event_participants ENABLE ROW LEVEL SECURITY;
+
+-- Two rows per pairing, one from each side
+CREATE TABLE IF NOT EXISTS event_pairings (
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE,
+  round int NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  partner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  PRIMARY KEY (event_id, round, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_pairings_partner ON event_pairings(event_id, user_id, partner_id);
+
+ALTER TABLE event_pairings ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS event_round int;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_event ON rooms(event_id, event_round) WHERE event_id IS NOT NULL;
+
+-- =============================================
+-- RPC: create_event
+-- The host joins as the first participant. Returns the event code.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_event(
+  p_title text,
+  p_mode text,
+  p_starts_at timestamptz,
+  p_round_sec int,
+  p_break_sec int,
+  p_round_count int,
+  p_display_name text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event_id uuid;
+  v_code text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF coalesce(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'Events need a title';
+  END IF;
+
+  IF p_starts_at < now() - interval '1 minute' THEN
+    RAISE EXCEPTION 'Events cannot start in the past';
+  END IF;
+
+  LOOP
+    v_code := substr(md5(gen_random_uuid()::text), 1, 8);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM events WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO events (code, title, mode, starts_at, round_sec, break_sec, round_count, host_id)
+  VALUES (v_code, trim(p_title), p_mode, p_starts_at, p_round_sec, p_break_sec, p_round_count, v_user_id)
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO event_participants (event_id, user_id, display_name)
+  VALUES (v_event_id, v_user_id, p_display_name);
+
+  RETURN v_code;
+END;
+$$;
+
+-- =============================================
+-- RPC: get_event
+-- What the /e/:code page shows. my_name is the name the caller joined with,
+-- and my_room_id their room while the current round is running. No row for
+-- an unknown code.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_event(p_code text)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  host_name text,
+  mode text,
+  starts_at timestamptz,
+  round_sec int,
+  break_sec int,
+  round_count int,
+  current_round int,
+  status text,
+  participant_count int,
+  joined boolean,
+  my_name text,
+  my_room_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    e.id,
+    e.title,
+    (SELECT p.display_name FROM event_participants p WHERE p.event_id = e.id AND p.user_id = e.host_id),
+    e.mode,
+    e.starts_at,
+    e.round_sec,
+    e.break_sec,
+    e.round_count,
+    e.current_round,
+    e.status,
+    (SELECT count(*)::int FROM event_participants p WHERE p.event_id = e.id AND p.left_at IS NULL),
+    EXISTS (
+      SELECT 1 FROM event_participants p
+      WHERE p.event_id = e.id AND p.user_id = auth.uid() AND p.left_at IS NULL
+    ),
+    (SELECT p.display_name FROM event_participants p WHERE p.event_id = e.id AND p.user_id = auth.uid()),
+    (
+      SELECT r.id
+      FROM event_pairings ep
+      JOIN rooms r ON r.id = ep.room_id
+      WHERE ep.event_id = e.id
+        AND ep.round = e.current_round
+        AND ep.user_id = auth.uid()
+        AND r.status = 'matched'
+    )
+  FROM events e
+  WHERE e.code = p_code;
+$$;
+
+-- =============================================
+-- RPC: join_event
+-- Rejoining after leaving is allowed until the event ends
+-- =============================================
+
+CREATE OR REPLACE FUNCTION join_event(p_code text, p_display_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event events;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE code = p_code;
+
+  IF v_event.id IS NULL OR v_event.status = 'ended' THEN
+    RAISE EXCEPTION 'This event is over';
+  END IF;
+
+  INSERT INTO event_participants (event_id, user_id, display_name)
+  VALUES (v_event.id, v_user_id, p_display_name)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+  SET display_name = EXCLUDED.display_name,
+      last_seen_at = now(),
+      left_at = NULL;
+END;
+$$;
+
+-- =============================================
+-- RPC: leave_event
+-- =============================================
+
+CREATE OR REPLACE FUNCTION leave_event(p_code text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE event_participants p
+  SET left_at = now()
+  FROM events e
+  WHERE e.code = p_code AND p.event_id = e.id AND p.user_id = auth.uid();
+$$;
+
+-- =============================================
+-- INTERNAL: pair_event_round
+-- Pairs everyone present in the lobby for one round and opens a matched
+-- private room per pair. Those who have had the fewest partners so far are
+-- paired first, so with an odd count the one sitting out changes each round.
+-- Each person gets someone they haven't met at this event when anyone like
+-- that is left, and a repeat partner otherwise.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION pair_event_round(p_event_id uuid, p_round int)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event events;
+  v_stale_sec int;
+  v_first_duration int;
+  v_pool uuid[];
+  v_paired uuid[] := '{}';
+  v_user uuid;
+  v_partner uuid;
+  v_room_id uuid;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+
+  SELECT heartbeat_stale_sec INTO v_stale_sec FROM matchmaking_settings LIMIT 1;
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = v_event.format_id;
+
+  v_pool := ARRAY(
+    SELECT p.user_id
+    FROM event_participants p
+    WHERE p.event_id = p_event_id
+      AND p.left_at IS NULL
+      AND p.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+    ORDER BY
+      (SELECT count(*) FROM event_pairings ep WHERE ep.event_id = p_event_id AND ep.user_id = p.user_id),
+      random()
+  );
+
+  FOREACH v_user IN ARRAY v_pool LOOP
+    CONTINUE WHEN v_user = ANY (v_paired);
+
+    SELECT c.candidate INTO v_partner
+    FROM unnest(v_pool) WITH ORDINALITY AS c(candidate, ord)
+    WHERE c.candidate <> v_user
+      AND NOT c.candidate = ANY (v_paired)
+      AND NOT is_blocked_pair(v_user, c.candidate)
+    ORDER BY
+      EXISTS (
+        SELECT 1 FROM event_pairings ep
+        WHERE ep.event_id = p_event_id AND ep.user_id = v_user AND ep.partner_id = c.candidate
+      ),
+      c.ord
+    LIMIT 1;
+
+    -- Nobody left for this person; they sit this round out
+    CONTINUE WHEN v_partner IS NULL;
+
+    v_paired := v_paired || v_user || v_partner;
+
+    INSERT INTO rooms (
+      mode, status, format_id, segment_start_at, segment_duration_sec, current_segment, round,
+      acceptable_modes, is_private, event_id, event_round
+    )
+    VALUES (
+      v_event.mode, 'matched', v_event.format_id, now(), v_first_duration, 0, 1,
+      ARRAY[v_event.mode], true, p_event_id, p_round
+    )
+    RETURNING id INTO v_room_id;
+
+    INSERT INTO room_members (room_id, user_id, display_name, role)
+    SELECT v_room_id, p.user_id, p.display_name, CASE WHEN p.user_id = v_user THEN 'user1' ELSE 'user2' END
+    FROM event_participants p
+    WHERE p.event_id = p_event_id AND p.user_id IN (v_user, v_partner);
+
+    INSERT INTO event_pairings (event_id, round, user_id, partner_id, room_id)
+    VALUES
+      (p_event_id, p_round, v_user, v_partner, v_room_id),
+      (p_event_id, p_round, v_partner, v_user, v_room_id);
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_room_id, v_user, v_partner);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pair_event_round(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: sync_event
+-- Marks the caller present and moves the event along its schedule: round n
+-- runs for round_sec from starts_at + (n - 1) * (round_sec + break_sec).
+-- Rooms of a finished round are closed, and the first call inside a new
+-- round pairs everyone for it. Returns the same row as get_event.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION sync_event(p_code text)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  host_name text,
+  mode text,
+  starts_at timestamptz,
+  round_sec int,
+  break_sec int,
+  round_count int,
+  current_round int,
+  status text,
+  participant_count int,
+  joined boolean,
+  my_name text,
+  my_room_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event events;
+  v_elapsed_sec numeric;
+  v_slot int;
+  v_in_round boolean;
+BEGIN
+  SELECT * INTO v_event FROM events e WHERE e.code = p_code FOR UPDATE;
+
+  IF v_event.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE event_participants p
+  SET last_seen_at = now()
+  WHERE p.event_id = v_event.id AND p.user_id = auth.uid() AND p.left_at IS NULL;
+
+  v_elapsed_sec := extract(epoch FROM now() - v_event.starts_at);
+
+  IF v_event.status <> 'ended' AND v_elapsed_sec >= 0 THEN
+    v_slot := floor(v_elapsed_sec / (v_event.round_sec + v_event.break_sec))::int + 1;
+    v_in_round := v_elapsed_sec - (v_slot - 1) * (v_event.round_sec + v_event.break_sec) < v_event.round_sec;
+
+    -- The current round is over once we are past its end
+    IF v_event.current_round > 0 AND (v_slot > v_event.current_round OR NOT v_in_round) THEN
+      UPDATE rooms r
+      SET status = 'closed'
+      WHERE r.event_id = v_event.id AND r.event_round = v_event.current_round AND r.status <> 'closed';
+    END IF;
+
+    IF v_slot > v_event.round_count OR (v_slot = v_event.round_count AND NOT v_in_round) THEN
+      UPDATE events e SET status = 'ended' WHERE e.id = v_event.id;
+    ELSIF v_in_round AND v_slot > v_event.current_round THEN
+      PERFORM pair_event_round(v_event.id, v_slot);
+      UPDATE events e SET status = 'running', current_round = v_slot WHERE e.id = v_event.id;
+    ELSIF v_event.status = 'scheduled' THEN
+      UPDATE events e SET status = 'running' WHERE e.id = v_event.id;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_event(p_code);
+END;
+$$;
+
+-- =============================================
+-- RPC: get_event_room
+-- The caller's room for the current round, in the same row shape as
+-- match_or_create_room. No row when they are sitting the round out.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_event_room(p_code text)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT r.id, me.role, true, peer.display_name, r.mode, '{}'::text[]
+  FROM events e
+  JOIN event_pairings ep ON ep.event_id = e.id AND ep.round = e.current_round AND ep.user_id = auth.uid()
+  JOIN rooms r ON r.id = ep.room_id AND r.status = 'matched'
+  JOIN room_members me ON me.room_id = r.id AND me.user_id = auth.uid()
+  LEFT JOIN room_members peer ON peer.room_id = r.id AND peer.user_id = ep.partner_id
+  WHERE e.code = p_code;
+$$;
+
+-- =============================================
+-- RPC: get_event_summary
+-- Who the caller met at the event, one row per round they were paired in
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_event_summary(p_code text)
+RETURNS TABLE (round int, partner_name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT ep.round, p.display_name
+  FROM events e
+  JOIN event_pairings ep ON ep.event_id = e.id AND ep.user_id = auth.uid()
+  LEFT JOIN event_participants p ON p.event_id = e.id AND p.user_id = ep.partner_id
+  WHERE e.code = p_code
+  ORDER BY ep.round;
+$$;
@@ -0,0 +1,35 @@
+-- =============================================
+-- Hide private rooms from non-members
+-- The matchmaking exception in 001 lets any signed-in user read waiting
+-- rooms, which exposed a private room's invite_code (024) and let anyone
+-- take the invitee's seat. Waiting private rooms are now visible only to
+-- their members; get_invite_room and join_invite_room are SECURITY DEFINER
+-- and keep working from the code alone.
+-- Run after 027_talk_preferences.sql
+-- =============================================
+
+DROP POLICY IF EXISTS "Users can view rooms they belong to" ON rooms;
+
+CREATE POLICY "Users can view rooms they belong to"
+  ON rooms FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_members
+      WHERE room_members.room_id = rooms.id
+      AND room_members.user_id = auth.uid()
+    )
+    OR (status = 'waiting' AND NOT is_private) -- Allow viewing public waiting rooms for matchmaking
+  );
+
+DROP POLICY IF EXISTS "Users can view room members" ON room_members;
+
+CREATE POLICY "Users can view room members"
+  ON room_members FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_members rm
+      WHERE rm.room_id = room_members.room_id
+      AND rm.user_id = auth.uid()
+    )
+    OR room_id IN (SELECT id FROM rooms WHERE status = 'waiting' AND NOT is_private) -- For matchmaking
+  );
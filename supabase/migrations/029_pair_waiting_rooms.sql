@@ -0,0 +1,244 @@
+-- =============================================
+-- Pair rooms that are already waiting
+-- Widening (012) only helped the next person to search: two rooms whose
+-- acceptable modes came to overlap kept waiting side by side. Now whenever a
+-- room widens, compatible waiting rooms are paired on the server. The newer
+-- room's member takes the user2 seat in the older room, and the newer room
+-- closes with merged_into pointing there so its client can follow.
+-- Run after 028_private_room_visibility.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES rooms(id) ON DELETE SET NULL;
+
+-- =============================================
+-- INTERNAL: pair_waiting_rooms
+-- Applies the same rules as match_or_create_room (027) to each pair of public
+-- 1:1 waiting rooms, oldest room first. Rooms locked by a concurrent match are
+-- skipped and picked up on the next run.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION pair_waiting_rooms()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_widen_after_sec int;
+  v_stale_sec int;
+  v_room record;
+  v_recent_partners uuid[];
+  v_peer_room_id uuid;
+  v_peer_user_id uuid;
+  v_peer_name text;
+  v_peer_mode text;
+  v_peer_modes text[];
+  v_peer_tags text[];
+  v_peer_pref text;
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+  v_format_id text;
+  v_talker_role text;
+  v_count int := 0;
+BEGIN
+  SELECT tag_widen_after_sec, heartbeat_stale_sec
+  INTO v_widen_after_sec, v_stale_sec
+  FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  FOR v_room IN
+    SELECT r.id, r.mode, r.acceptable_modes, r.format_id, r.created_at,
+      rm.user_id, rm.interest_tags, rm.talk_preference
+    FROM rooms r
+    JOIN room_members rm ON rm.room_id = r.id
+    WHERE r.status = 'waiting'
+      AND NOT r.is_private
+      AND r.circle_size IS NULL
+      AND (
+        SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+      ) = 1
+      AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+    ORDER BY r.created_at ASC, r.id ASC
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    -- Already merged into an older room earlier in this run
+    CONTINUE WHEN NOT EXISTS (SELECT 1 FROM rooms WHERE id = v_room.id AND status = 'waiting');
+
+    v_recent_partners := ARRAY(SELECT recent_partner_ids(v_room.user_id));
+
+    -- A newer waiting room that the older one's member would have matched had
+    -- they searched now, picked in the matcher's order
+    SELECT r.id, rm.user_id, rm.display_name, r.mode, r.acceptable_modes, rm.interest_tags, rm.talk_preference
+    INTO v_peer_room_id, v_peer_user_id, v_peer_name, v_peer_mode, v_peer_modes, v_peer_tags, v_peer_pref
+    FROM rooms r
+    JOIN room_members rm ON rm.room_id = r.id
+    WHERE r.status = 'waiting'
+      AND NOT r.is_private
+      AND r.circle_size IS NULL
+      AND (r.created_at, r.id) > (v_room.created_at, v_room.id)
+      AND r.acceptable_modes && v_room.acceptable_modes
+      AND r.format_id = v_room.format_id
+      AND rm.user_id != v_room.user_id
+      AND (
+        SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+      ) = 1
+      AND (
+        rm.interest_tags && v_room.interest_tags
+        OR cardinality(rm.interest_tags) = 0
+        OR cardinality(v_room.interest_tags) = 0
+        OR v_room.created_at <= now() - make_interval(secs => v_widen_after_sec)
+      )
+      AND NOT is_blocked_pair(v_room.user_id, rm.user_id)
+      AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+    ORDER BY
+      (rm.user_id = ANY (v_recent_partners)) ASC,
+      CASE
+        WHEN rm.talk_preference <> 'either' AND v_room.talk_preference <> 'either'
+          AND rm.talk_preference <> v_room.talk_preference THEN 0
+        WHEN rm.talk_preference = 'either' OR v_room.talk_preference = 'either' THEN 1
+        ELSE 2
+      END ASC,
+      cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_room.interest_tags))) DESC,
+      r.created_at ASC
+    LIMIT 1
+    FOR UPDATE OF r SKIP LOCKED;
+
+    CONTINUE WHEN v_peer_room_id IS NULL;
+
+    -- Same mode choice as the matcher, with the newer room's widened set
+    -- standing in for the searcher's
+    v_actual_mode := CASE
+      WHEN v_room.mode != 'any' AND v_room.mode = ANY (v_peer_modes) THEN v_room.mode
+      WHEN v_peer_mode != 'any' AND v_peer_mode = ANY (v_room.acceptable_modes) THEN v_peer_mode
+      ELSE (
+        SELECT m FROM unnest(ARRAY['video', 'audio', 'text']) WITH ORDINALITY AS o(m, pos)
+        WHERE m = ANY (v_room.acceptable_modes) AND m = ANY (v_peer_modes)
+        ORDER BY pos
+        LIMIT 1
+      )
+    END;
+
+    -- Keep the older member's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_room.interest_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_peer_tags)
+      ORDER BY pos
+    );
+
+    v_format_id := v_room.format_id;
+    SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+    FROM conversation_formats
+    WHERE id = v_format_id;
+
+    v_talker_role := talker_role(v_room.talk_preference, v_peer_pref);
+    IF v_talker_role IS NOT NULL THEN
+      SELECT id, (segments -> 0 ->> 'duration_sec')::int INTO v_format_id, v_first_duration
+      FROM conversation_formats
+      WHERE talker_role = v_talker_role AND is_active
+      ORDER BY sort_order
+      LIMIT 1;
+
+      -- No asymmetric format available; keep the one both chose
+      IF v_format_id IS NULL THEN
+        v_format_id := v_room.format_id;
+        SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+        FROM conversation_formats
+        WHERE id = v_format_id;
+      END IF;
+    END IF;
+
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags, talk_preference)
+    VALUES (v_room.id, v_peer_user_id, v_peer_name, 'user2', v_peer_tags, v_peer_pref);
+
+    UPDATE rooms
+    SET status = 'matched',
+        format_id = v_format_id,
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_room.id;
+
+    UPDATE rooms
+    SET status = 'closed',
+        merged_into = v_room.id
+    WHERE id = v_peer_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_room.id, v_room.user_id, v_peer_user_id);
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pair_waiting_rooms() FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- INTERNAL: widen_waiting_rooms
+-- Same as 012, then pairs waiting rooms whenever any set widened
+-- =============================================
+
+CREATE OR REPLACE FUNCTION widen_waiting_rooms()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count int;
+BEGIN
+  UPDATE rooms
+  SET acceptable_modes = w.modes
+  FROM (
+    SELECT id, widened_modes(
+      mode,
+      floor(EXTRACT(EPOCH FROM now() - created_at) / mode_widen_after_sec)::int
+    ) AS modes
+    FROM rooms
+    WHERE status = 'waiting' AND mode_widen_after_sec IS NOT NULL
+  ) w
+  WHERE rooms.id = w.id
+    AND rooms.acceptable_modes IS DISTINCT FROM w.modes;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count > 0 THEN
+    PERFORM pair_waiting_rooms();
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION widen_waiting_rooms() FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: get_merged_room
+-- Where the caller's closed waiting room was merged, in the matcher's row shape
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_merged_room(p_room_id uuid)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    merged.id,
+    me.role,
+    merged.status = 'matched',
+    peer.display_name,
+    merged.mode,
+    COALESCE(merged.shared_tags, '{}')
+  FROM rooms closed_room
+  JOIN rooms merged ON merged.id = closed_room.merged_into
+  JOIN room_members me ON me.room_id = merged.id AND me.user_id = auth.uid()
+  LEFT JOIN room_members peer ON peer.room_id = merged.id AND peer.user_id != auth.uid()
+  WHERE closed_room.id = p_room_id;
+$$;
@@ -0,0 +1,18 @@
+-- =============================================
+-- Pair waiting rooms once their tag window passes
+-- The tag fallback (008) only looked at a waiting room's age when someone new
+-- searched, so two people with disjoint tags who arrived seconds apart never
+-- met. pair_waiting_rooms (029) already lets the older room match any tags
+-- once it has waited tag_widen_after_sec; run it on a schedule too, so that
+-- happens without a mode widening or a third person searching.
+-- Run after 029_pair_waiting_rooms.sql
+-- =============================================
+
+-- Requires pg_cron, same as 006
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('pair-waiting-rooms', '5 seconds', 'SELECT pair_waiting_rooms()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,193 @@
+-- =============================================
+-- Keep circles out of the 1:1 matcher
+-- match_or_create_room (027) accepted circle formats and could seat a second
+-- person in a waiting circle as if it were a pair. Circles are only joined
+-- through join_circle (025).
+-- Run after 030_pair_rooms_after_tag_window.sql
+-- =============================================
+
+-- =============================================
+-- MATCHMAKING: match_or_create_room
+-- Same as 027, but rejects circle formats and skips waiting circles
+-- =============================================
+
+CREATE OR REPLACE FUNCTION match_or_create_room(
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic',
+  p_interest_tags text[] DEFAULT '{}',
+  p_mode_widen_after_sec int DEFAULT NULL,
+  p_talk_preference text DEFAULT 'either'
+)
+RETURNS TABLE (room_id uuid, role text, matched boolean, peer_name text, chat_mode text, shared_tags text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tags text[] := normalize_interest_tags(p_interest_tags);
+  v_my_modes text[] := widened_modes(p_mode, 0);
+  v_room_mode text;
+  v_room_modes text[];
+  v_widen_after_sec int;
+  v_stale_sec int;
+  v_recent_partners uuid[];
+  v_existing_room_id uuid;
+  v_peer_user_id uuid;
+  v_new_room_id uuid;
+  v_peer_name text;
+  v_peer_tags text[];
+  v_peer_pref text;
+  v_shared_tags text[];
+  v_actual_mode text;
+  v_first_duration int;
+  v_format_id text := p_format_id;
+  v_talker_role text;
+BEGIN
+  -- Input validation
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF p_talk_preference NOT IN ('talk', 'listen', 'either') THEN
+    RAISE EXCEPTION 'Unknown talk preference: %', p_talk_preference;
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active AND talker_role IS NULL AND NOT for_circles;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  SELECT tag_widen_after_sec, heartbeat_stale_sec
+  INTO v_widen_after_sec, v_stale_sec
+  FROM matchmaking_settings LIMIT 1;
+  v_widen_after_sec := COALESCE(v_widen_after_sec, 30);
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  v_recent_partners := ARRAY(SELECT recent_partner_ids(v_user_id));
+
+  -- Bring opted-in waiting rooms' acceptable modes up to date before searching
+  PERFORM widen_waiting_rooms();
+
+  -- Look for a waiting room that:
+  -- 1. Accepts a mode we accept (its set may have widened while it waited)
+  -- 2. Uses the same conversation format
+  -- 3. Has exactly 1 member
+  -- 4. Was not created by the current user
+  -- 5. Shares a tag, or either side has no tags, or it has waited past the widen threshold
+  -- 6. Neither user has blocked the other
+  -- 7. Its member has sent a heartbeat recently
+  -- 8. It is not a private room waiting for an invited guest
+  -- 9. It is not a circle still filling its seats
+  -- Recent partners sort last, so they are only picked when nobody else is waiting.
+  -- Otherwise the best talk preference fit wins, then more shared tags, then the oldest.
+  SELECT r.id, rm.user_id, rm.display_name, r.mode, r.acceptable_modes, rm.interest_tags, rm.talk_preference
+  INTO v_existing_room_id, v_peer_user_id, v_peer_name, v_room_mode, v_room_modes, v_peer_tags, v_peer_pref
+  FROM rooms r
+  JOIN room_members rm ON rm.room_id = r.id
+  WHERE r.status = 'waiting'
+    AND NOT r.is_private
+    AND r.circle_size IS NULL
+    AND r.acceptable_modes && v_my_modes
+    AND r.format_id = p_format_id
+    AND rm.user_id != v_user_id
+    AND (
+      SELECT COUNT(*) FROM room_members WHERE room_members.room_id = r.id
+    ) = 1
+    AND (
+      rm.interest_tags && v_tags
+      OR cardinality(rm.interest_tags) = 0
+      OR cardinality(v_tags) = 0
+      OR r.created_at <= now() - make_interval(secs => v_widen_after_sec)
+    )
+    AND NOT is_blocked_pair(v_user_id, rm.user_id)
+    AND rm.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+  ORDER BY
+    (rm.user_id = ANY (v_recent_partners)) ASC,
+    CASE
+      WHEN rm.talk_preference <> 'either' AND p_talk_preference <> 'either'
+        AND rm.talk_preference <> p_talk_preference THEN 0
+      WHEN rm.talk_preference = 'either' OR p_talk_preference = 'either' THEN 1
+      ELSE 2
+    END ASC,
+    cardinality(ARRAY(SELECT unnest(rm.interest_tags) INTERSECT SELECT unnest(v_tags))) DESC,
+    r.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF v_existing_room_id IS NOT NULL THEN
+    -- Determine actual chat mode: the waiting user's original choice if we
+    -- accept it, else ours if their widened set allows it, else video > audio > text
+    v_actual_mode := CASE
+      WHEN v_room_mode != 'any' AND v_room_mode = ANY (v_my_modes) THEN v_room_mode
+      WHEN p_mode != 'any' AND p_mode = ANY (v_room_modes) THEN p_mode
+      ELSE (
+        SELECT m FROM unnest(ARRAY['video', 'audio', 'text']) WITH ORDINALITY AS o(m, pos)
+        WHERE m = ANY (v_room_modes) AND m = ANY (v_my_modes)
+        ORDER BY pos
+        LIMIT 1
+      )
+    END;
+
+    -- Keep the waiting user's tag order
+    v_shared_tags := ARRAY(
+      SELECT t FROM unnest(v_peer_tags) WITH ORDINALITY AS p(t, pos)
+      WHERE t = ANY (v_tags)
+      ORDER BY pos
+    );
+
+    -- The waiting member is user1; give the talker the format built around their seat
+    v_talker_role := talker_role(v_peer_pref, p_talk_preference);
+    IF v_talker_role IS NOT NULL THEN
+      SELECT id, (segments -> 0 ->> 'duration_sec')::int INTO v_format_id, v_first_duration
+      FROM conversation_formats
+      WHERE talker_role = v_talker_role AND is_active
+      ORDER BY sort_order
+      LIMIT 1;
+
+      -- No asymmetric format available; keep the one both chose
+      IF v_format_id IS NULL THEN
+        v_format_id := p_format_id;
+        SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+        FROM conversation_formats
+        WHERE id = p_format_id;
+      END IF;
+    END IF;
+
+    -- Join the existing room as user2
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags, talk_preference)
+    VALUES (v_existing_room_id, v_user_id, p_display_name, 'user2', v_tags, p_talk_preference);
+
+    -- Update room status to matched and start the first segment of the format
+    UPDATE rooms
+    SET status = 'matched',
+        format_id = v_format_id,
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1,
+        mode = v_actual_mode,
+        shared_tags = v_shared_tags
+    WHERE id = v_existing_room_id;
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_existing_room_id, v_peer_user_id, v_user_id);
+
+    RETURN QUERY SELECT v_existing_room_id, 'user2'::text, true, v_peer_name, v_actual_mode, v_shared_tags;
+  ELSE
+    -- No match found, create a new room
+    INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, mode_widen_after_sec)
+    VALUES (p_mode, 'waiting', p_format_id, v_first_duration, v_my_modes, NULLIF(p_mode_widen_after_sec, 0))
+    RETURNING id INTO v_new_room_id;
+
+    -- Join as user1
+    INSERT INTO room_members (room_id, user_id, display_name, role, interest_tags, talk_preference)
+    VALUES (v_new_room_id, v_user_id, p_display_name, 'user1', v_tags, p_talk_preference);
+
+    RETURN QUERY SELECT v_new_room_id, 'user1'::text, false, NULL::text, p_mode, '{}'::text[];
+  END IF;
+END;
+$$;
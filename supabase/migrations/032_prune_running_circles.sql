@@ -0,0 +1,143 @@
+-- =============================================
+-- Drop silent members from running circles
+-- Stale seats were only freed while a circle waited (025). Once it started,
+-- someone whose tab closed kept their seat, so every turn stalled on them
+-- until the timer ran out. Now a running circle drops members whose
+-- heartbeat has gone stale and the turn closes up around them, both when a
+-- survivor notices they left (close_room_if_peer_gone) and on a schedule.
+-- Run after 031_keep_circles_out_of_matcher.sql
+-- =============================================
+
+-- =============================================
+-- INTERNAL: drop_stale_circle_seats
+-- Removes members of a running circle not seen within p_stale_sec, other than
+-- the caller, and closes the circle once fewer than two remain. Returns how
+-- many seats were dropped.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION drop_stale_circle_seats(p_room_id uuid, p_stale_sec int)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_role text;
+  v_count int := 0;
+BEGIN
+  PERFORM 1 FROM rooms
+  WHERE id = p_room_id AND status = 'matched' AND circle_size IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_role IN
+    DELETE FROM room_members
+    WHERE room_id = p_room_id
+      AND user_id IS DISTINCT FROM auth.uid()
+      AND last_seen_at < now() - make_interval(secs => p_stale_sec)
+    RETURNING role
+  LOOP
+    PERFORM remove_circle_seat(p_room_id, v_role);
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count > 0 THEN
+    UPDATE rooms
+    SET status = 'closed'
+    WHERE id = p_room_id AND cardinality(circle_seats) < 2;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION drop_stale_circle_seats(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- RPC: close_room_if_peer_gone
+-- Same as 015 for pairs. In a circle, drops the seats of members gone for
+-- the grace period instead; returns the room if any seat was dropped, still
+-- matched while two or more remain.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION close_room_if_peer_gone(p_room_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_grace_sec int;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT peer_left_grace_sec INTO v_grace_sec FROM matchmaking_settings LIMIT 1;
+  v_grace_sec := COALESCE(v_grace_sec, 15);
+
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND circle_size IS NOT NULL) THEN
+    IF drop_stale_circle_seats(p_room_id, v_grace_sec) > 0 THEN
+      RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+    END IF;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE rooms r
+  SET status = 'closed'
+  WHERE r.id = p_room_id
+    AND r.status = 'matched'
+    AND NOT EXISTS (
+      SELECT 1 FROM room_members rm
+      WHERE rm.room_id = r.id
+        AND rm.user_id != v_user_id
+        AND rm.last_seen_at >= now() - make_interval(secs => v_grace_sec)
+    )
+  RETURNING r.*;
+END;
+$$;
+
+-- =============================================
+-- SCHEDULED: prune_running_circles
+-- Catches members who went quiet while everyone else's tab was throttled too
+-- =============================================
+
+CREATE OR REPLACE FUNCTION prune_running_circles()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stale_sec int;
+  v_room record;
+  v_count int := 0;
+BEGIN
+  SELECT heartbeat_stale_sec INTO v_stale_sec FROM matchmaking_settings LIMIT 1;
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  FOR v_room IN
+    SELECT id FROM rooms
+    WHERE status = 'matched' AND circle_size IS NOT NULL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_count := v_count + drop_stale_circle_seats(v_room.id, v_stale_sec);
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prune_running_circles() FROM PUBLIC, anon, authenticated;
+
+-- Requires pg_cron, same as 006
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('prune-running-circles', '10 seconds', 'SELECT prune_running_circles()');
+  END IF;
+END;
+$$;
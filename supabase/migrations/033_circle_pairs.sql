@@ -0,0 +1,149 @@
+-- =============================================
+-- Record who met whom in a circle
+-- join_circle (025) wrote no recent_pairs rows, so after a circle the
+-- membership checks in submit_room_feedback (019) and keep_in_touch (023)
+-- failed with "Not a member", and the 1:1 matcher didn't know circle mates
+-- had just met. Every pair of members is now recorded when a circle starts,
+-- a circle can be rated as a whole, and keep_in_touch says plainly that it
+-- needs a single partner.
+-- Run after 032_prune_running_circles.sql
+-- =============================================
+
+-- =============================================
+-- TRIGGER: record_circle_pairs
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_circle_pairs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.circle_size IS NOT NULL AND NEW.status = 'matched' AND OLD.status = 'waiting' THEN
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    SELECT NEW.id, a.user_id, b.user_id
+    FROM room_members a
+    JOIN room_members b ON b.room_id = a.room_id AND b.role > a.role
+    WHERE a.room_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_record_circle_pairs ON rooms;
+CREATE TRIGGER rooms_record_circle_pairs
+  AFTER UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION record_circle_pairs();
+
+-- =============================================
+-- RPC: submit_room_feedback
+-- Same as 019, but a circle's feedback has no single ratee
+-- =============================================
+
+CREATE OR REPLACE FUNCTION submit_room_feedback(
+  p_room_id uuid,
+  p_rating int,
+  p_felt_heard boolean DEFAULT NULL,
+  p_stayed_on_turn boolean DEFAULT NULL,
+  p_comment text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_peer_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  SELECT CASE WHEN p.user_a = v_user_id THEN p.user_b ELSE p.user_a END
+  INTO v_peer_id
+  FROM recent_pairs p
+  WHERE p.room_id = p_room_id
+    AND (p.user_a = v_user_id OR p.user_b = v_user_id)
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  -- A circle is rated as a whole
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND circle_size IS NOT NULL) THEN
+    v_peer_id := NULL;
+  END IF;
+
+  INSERT INTO room_feedback (room_id, rater_id, ratee_id, format_id, mode, rating, felt_heard, stayed_on_turn, comment)
+  SELECT r.id, v_user_id, v_peer_id, r.format_id, r.mode, p_rating, p_felt_heard, p_stayed_on_turn,
+    NULLIF(trim(p_comment), '')
+  FROM rooms r
+  WHERE r.id = p_room_id
+  ON CONFLICT (room_id, rater_id) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      felt_heard = EXCLUDED.felt_heard,
+      stayed_on_turn = EXCLUDED.stayed_on_turn,
+      comment = EXCLUDED.comment,
+      created_at = now();
+END;
+$$;
+
+-- =============================================
+-- RPC: keep_in_touch
+-- Same as 023, but refuses circles outright rather than picking one member
+-- =============================================
+
+CREATE OR REPLACE FUNCTION keep_in_touch(p_room_id uuid, p_display_name text)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_peer_id uuid;
+  v_peer_name text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND circle_size IS NOT NULL) THEN
+    RAISE EXCEPTION 'Keeping in touch needs a single partner, and a circle has several';
+  END IF;
+
+  v_peer_id := room_partner_id(p_room_id, v_user_id);
+
+  IF v_peer_id IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF is_blocked_pair(v_user_id, v_peer_id) THEN
+    RAISE EXCEPTION 'Cannot keep in touch with this person';
+  END IF;
+
+  INSERT INTO keep_in_touch_consents (room_id, user_id, display_name)
+  VALUES (p_room_id, v_user_id, p_display_name)
+  ON CONFLICT ON CONSTRAINT keep_in_touch_consents_pkey DO NOTHING;
+
+  SELECT display_name INTO v_peer_name
+  FROM keep_in_touch_consents
+  WHERE room_id = p_room_id AND user_id = v_peer_id;
+
+  IF FOUND THEN
+    INSERT INTO connections (user_a, user_b, user_a_name, user_b_name, room_id)
+    SELECT
+      least(v_user_id, v_peer_id),
+      greatest(v_user_id, v_peer_id),
+      CASE WHEN v_user_id < v_peer_id THEN p_display_name ELSE v_peer_name END,
+      CASE WHEN v_user_id < v_peer_id THEN v_peer_name ELSE p_display_name END,
+      p_room_id
+    ON CONFLICT (user_a, user_b) DO UPDATE
+    SET user_a_name = EXCLUDED.user_a_name,
+        user_b_name = EXCLUDED.user_b_name,
+        room_id = EXCLUDED.room_id;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_keep_in_touch_consent(p_room_id);
+END;
+$$;
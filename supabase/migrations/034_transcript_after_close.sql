@@ -0,0 +1,60 @@
+-- =============================================
+-- Transcript consent after the room closes
+-- The export could only be agreed to during the chat: consent copied the
+-- caller's row from room_members, which leave_room removes. A member who
+-- leaves can now still agree from the end-of-session prompt. Their seat
+-- comes from recent_pairs, which records user1 as user_a in every 1:1 room,
+-- and their name from their last message.
+-- Run after 033_circle_pairs.sql
+-- =============================================
+
+-- =============================================
+-- RPC: consent_transcript_export
+-- Same as 018, with the recent_pairs fallback for members who have left
+-- =============================================
+
+CREATE OR REPLACE FUNCTION consent_transcript_export(p_room_id uuid)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_display_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM transcript_consents tc WHERE tc.room_id = p_room_id AND tc.user_id = v_user_id
+  ) THEN
+    SELECT rm.role, rm.display_name INTO v_role, v_display_name
+    FROM room_members rm
+    WHERE rm.room_id = p_room_id AND rm.user_id = v_user_id;
+
+    IF v_role IS NULL THEN
+      SELECT CASE WHEN p.user_a = v_user_id THEN 'user1' ELSE 'user2' END INTO v_role
+      FROM recent_pairs p
+      JOIN rooms r ON r.id = p.room_id
+      WHERE p.room_id = p_room_id
+        AND r.circle_size IS NULL
+        AND (p.user_a = v_user_id OR p.user_b = v_user_id)
+      LIMIT 1;
+
+      SELECT m.display_name INTO v_display_name
+      FROM messages m
+      WHERE m.room_id = p_room_id AND m.user_id = v_user_id
+      ORDER BY m.created_at DESC
+      LIMIT 1;
+    END IF;
+
+    IF v_role IS NULL THEN
+      RAISE EXCEPTION 'Not a member of this room';
+    END IF;
+
+    INSERT INTO transcript_consents (room_id, user_id, role, display_name)
+    VALUES (p_room_id, v_user_id, v_role, v_display_name)
+    ON CONFLICT ON CONSTRAINT transcript_consents_pkey DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_transcript_consent(p_room_id);
+END;
+$$;
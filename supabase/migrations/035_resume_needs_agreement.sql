@@ -0,0 +1,245 @@
+-- =============================================
+-- Resuming a pause needs the pauser or both members
+-- A pause takes both members' agreement (021), but either of them could end
+-- it alone. The room now remembers who asked for the pause: that member can
+-- still resume on their own, and anyone else asks with a 'resume' time
+-- request that the others accept like any other.
+-- Run after 034_transcript_after_close.sql
+-- =============================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS paused_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- =============================================
+-- TRIGGER: a new segment always ends a pause
+-- Same as 021, and forgets the pauser
+-- =============================================
+
+CREATE OR REPLACE FUNCTION clear_room_pause()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.segment_start_at IS DISTINCT FROM OLD.segment_start_at THEN
+    NEW.paused_at := NULL;
+    NEW.paused_remaining_ms := NULL;
+    NEW.paused_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================
+-- INTERNAL: resume_room_segment
+-- Same as 021, and forgets the pauser
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_room_segment(p_room_id uuid, p_user_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND paused_at IS NOT NULL) THEN
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  PERFORM log_room_event(p_room_id, p_user_id, 'resumed', jsonb_build_object(
+    'auto', p_user_id IS NULL
+  ));
+
+  RETURN QUERY
+  UPDATE rooms
+  SET segment_ends_at = now() + make_interval(secs => coalesce(paused_remaining_ms, 0) / 1000.0),
+      paused_at = NULL,
+      paused_remaining_ms = NULL,
+      paused_by = NULL
+  WHERE id = p_room_id
+  RETURNING *;
+END;
+$$;
+
+-- =============================================
+-- RPC: request_time_change
+-- Same as 021, plus 'resume' while the room is paused
+-- =============================================
+
+CREATE OR REPLACE FUNCTION request_time_change(p_room_id uuid, p_kind text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_kind NOT IN ('extend', 'pause', 'resume') THEN
+    RAISE EXCEPTION 'Unknown time request: %', p_kind;
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active';
+  END IF;
+
+  IF p_kind = 'pause' AND v_room.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The conversation is already paused';
+  END IF;
+
+  IF p_kind = 'resume' AND v_room.paused_at IS NULL THEN
+    RAISE EXCEPTION 'The conversation is not paused';
+  END IF;
+
+  RETURN log_room_event(p_room_id, v_user_id, 'time_requested', jsonb_build_object(
+    'kind', p_kind,
+    'round', v_room.round,
+    'segment', v_room.current_segment
+  ));
+END;
+$$;
+
+-- =============================================
+-- RPC: respond_time_change
+-- Same as 021, but an accepted pause records who asked for it, and an
+-- accepted resume ends the pause
+-- =============================================
+
+CREATE OR REPLACE FUNCTION respond_time_change(p_room_id uuid, p_request_id bigint, p_accept boolean)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_request room_events;
+  v_kind text;
+  v_room rooms;
+  v_ttl_sec int;
+  v_extension_sec int;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT time_request_ttl_sec, time_extension_sec
+  INTO v_ttl_sec, v_extension_sec
+  FROM matchmaking_settings LIMIT 1;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  SELECT * INTO v_request
+  FROM room_events
+  WHERE id = p_request_id AND room_id = p_room_id AND kind = 'time_requested';
+
+  IF v_request.id IS NULL OR v_request.user_id = v_user_id THEN
+    RAISE EXCEPTION 'No such request from the other person';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_events
+    WHERE room_id = p_room_id
+      AND kind IN ('time_accepted', 'time_declined')
+      AND (payload ->> 'request_id')::bigint = p_request_id
+  ) THEN
+    RAISE EXCEPTION 'This request was already answered';
+  END IF;
+
+  IF v_request.created_at < now() - make_interval(secs => coalesce(v_ttl_sec, 30))
+    OR v_room.status IS DISTINCT FROM 'matched'
+    OR v_room.round IS DISTINCT FROM (v_request.payload ->> 'round')::int
+    OR v_room.current_segment IS DISTINCT FROM (v_request.payload ->> 'segment')::int
+  THEN
+    RAISE EXCEPTION 'This request has expired';
+  END IF;
+
+  v_kind := v_request.payload ->> 'kind';
+
+  IF NOT p_accept THEN
+    PERFORM log_room_event(p_room_id, v_user_id, 'time_declined', jsonb_build_object(
+      'request_id', p_request_id,
+      'kind', v_kind
+    ));
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  PERFORM log_room_event(p_room_id, v_user_id, 'time_accepted', jsonb_build_object(
+    'request_id', p_request_id,
+    'kind', v_kind
+  ));
+
+  IF v_kind = 'extend' THEN
+    v_extension_sec := coalesce(v_extension_sec, 60);
+    PERFORM log_room_event(p_room_id, NULL, 'segment_extended', jsonb_build_object(
+      'request_id', p_request_id,
+      'seconds', v_extension_sec
+    ));
+
+    -- A paused room keeps the extra time until it resumes
+    RETURN QUERY
+    UPDATE rooms
+    SET segment_ends_at = segment_ends_at + make_interval(secs => v_extension_sec),
+        paused_remaining_ms = paused_remaining_ms + v_extension_sec * 1000
+    WHERE id = p_room_id
+    RETURNING *;
+  ELSIF v_kind = 'pause' AND v_room.paused_at IS NULL THEN
+    PERFORM log_room_event(p_room_id, NULL, 'segment_paused', jsonb_build_object(
+      'request_id', p_request_id
+    ));
+
+    RETURN QUERY
+    UPDATE rooms
+    SET paused_at = now(),
+        paused_remaining_ms = greatest(0, floor(extract(epoch FROM segment_ends_at - now()) * 1000))::int,
+        segment_ends_at = NULL,
+        paused_by = v_request.user_id
+    WHERE id = p_room_id
+    RETURNING *;
+  ELSIF v_kind = 'resume' AND v_room.paused_at IS NOT NULL THEN
+    RETURN QUERY SELECT * FROM resume_room_segment(p_room_id, v_user_id);
+  ELSE
+    RETURN QUERY SELECT * FROM rooms WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- =============================================
+-- RPC: resume_segment
+-- Only the member who asked for the pause can end it without asking
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resume_segment(p_room_id uuid)
+RETURNS SETOF rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_paused_by uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  SELECT paused_by INTO v_paused_by FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  -- Pauses from before 035 have no pauser and stay open to either member
+  IF v_paused_by IS NOT NULL AND v_paused_by <> v_user_id THEN
+    RAISE EXCEPTION 'Only the person who asked for the pause can end it alone';
+  END IF;
+
+  RETURN QUERY SELECT * FROM resume_room_segment(p_room_id, v_user_id);
+END;
+$$;
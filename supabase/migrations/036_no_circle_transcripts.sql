@@ -0,0 +1,129 @@
+-- =============================================
+-- No transcript export from circles
+-- get_room_transcript (018) only counts two consents, and consenting through
+-- room_members (034) never looked at the room's size, so any two members of
+-- a circle could download everyone's messages. Both RPCs now refuse circles.
+-- Run after 035_resume_needs_agreement.sql
+-- =============================================
+
+-- =============================================
+-- RPC: consent_transcript_export
+-- Same as 034, but refuses circles
+-- =============================================
+
+CREATE OR REPLACE FUNCTION consent_transcript_export(p_room_id uuid)
+RETURNS TABLE (mine boolean, peer boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_display_name text;
+BEGIN
+  -- Every member's messages are in the transcript, and a circle has more than two
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND circle_size IS NOT NULL) THEN
+    RAISE EXCEPTION 'Transcripts can only be exported from 1:1 conversations';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM transcript_consents tc WHERE tc.room_id = p_room_id AND tc.user_id = v_user_id
+  ) THEN
+    SELECT rm.role, rm.display_name INTO v_role, v_display_name
+    FROM room_members rm
+    WHERE rm.room_id = p_room_id AND rm.user_id = v_user_id;
+
+    IF v_role IS NULL THEN
+      SELECT CASE WHEN p.user_a = v_user_id THEN 'user1' ELSE 'user2' END INTO v_role
+      FROM recent_pairs p
+      JOIN rooms r ON r.id = p.room_id
+      WHERE p.room_id = p_room_id
+        AND r.circle_size IS NULL
+        AND (p.user_a = v_user_id OR p.user_b = v_user_id)
+      LIMIT 1;
+
+      SELECT m.display_name INTO v_display_name
+      FROM messages m
+      WHERE m.room_id = p_room_id AND m.user_id = v_user_id
+      ORDER BY m.created_at DESC
+      LIMIT 1;
+    END IF;
+
+    IF v_role IS NULL THEN
+      RAISE EXCEPTION 'Not a member of this room';
+    END IF;
+
+    INSERT INTO transcript_consents (room_id, user_id, role, display_name)
+    VALUES (p_room_id, v_user_id, v_role, v_display_name)
+    ON CONFLICT ON CONSTRAINT transcript_consents_pkey DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_transcript_consent(p_room_id);
+END;
+$$;
+
+-- =============================================
+-- RPC: get_room_transcript
+-- Same as 018, but refuses circles
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_room_transcript(p_room_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+BEGIN
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND circle_size IS NOT NULL) THEN
+    RAISE EXCEPTION 'Transcripts can only be exported from 1:1 conversations';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM transcript_consents WHERE room_id = p_room_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM transcript_consents WHERE room_id = p_room_id) < 2 THEN
+    RAISE EXCEPTION 'Both people must agree before exporting';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'room_id', r.id,
+    'format_id', r.format_id,
+    'mode', r.mode,
+    'participants', (
+      SELECT jsonb_agg(jsonb_build_object('role', tc.role, 'display_name', tc.display_name) ORDER BY tc.role)
+      FROM transcript_consents tc
+      WHERE tc.room_id = r.id
+    ),
+    'segments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'round', h.round,
+        'segment', h.segment,
+        'speaker', h.speaker,
+        'started_at', h.started_at
+      ) ORDER BY h.started_at, h.id)
+      FROM room_segment_history h
+      WHERE h.room_id = r.id
+    ), '[]'::jsonb),
+    'messages', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'role', tc.role,
+        'display_name', m.display_name,
+        'text', m.text,
+        'created_at', m.created_at
+      ) ORDER BY m.created_at)
+      FROM messages m
+      LEFT JOIN transcript_consents tc ON tc.room_id = m.room_id AND tc.user_id = m.user_id
+      WHERE m.room_id = r.id
+    ), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM rooms r
+  WHERE r.id = p_room_id;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- =============================================
+-- Event rooms start like any other match
+-- pair_event_round (026) inserted its rooms already matched, and the triggers
+-- that run when a room becomes matched only fire on UPDATE. Event rooms had
+-- no first-round prompt (020), no first segment in their history (018), so
+-- exported transcripts lost their opening messages, and no matched_at (011).
+-- Run after 036_no_circle_transcripts.sql
+-- =============================================
+
+-- =============================================
+-- INTERNAL: pair_event_round
+-- Same as 026, but each room is created waiting and then matched
+-- =============================================
+
+CREATE OR REPLACE FUNCTION pair_event_round(p_event_id uuid, p_round int)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event events;
+  v_stale_sec int;
+  v_first_duration int;
+  v_pool uuid[];
+  v_paired uuid[] := '{}';
+  v_user uuid;
+  v_partner uuid;
+  v_room_id uuid;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+
+  SELECT heartbeat_stale_sec INTO v_stale_sec FROM matchmaking_settings LIMIT 1;
+  v_stale_sec := COALESCE(v_stale_sec, 30);
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = v_event.format_id;
+
+  v_pool := ARRAY(
+    SELECT p.user_id
+    FROM event_participants p
+    WHERE p.event_id = p_event_id
+      AND p.left_at IS NULL
+      AND p.last_seen_at >= now() - make_interval(secs => v_stale_sec)
+    ORDER BY
+      (SELECT count(*) FROM event_pairings ep WHERE ep.event_id = p_event_id AND ep.user_id = p.user_id),
+      random()
+  );
+
+  FOREACH v_user IN ARRAY v_pool LOOP
+    CONTINUE WHEN v_user = ANY (v_paired);
+
+    SELECT c.candidate INTO v_partner
+    FROM unnest(v_pool) WITH ORDINALITY AS c(candidate, ord)
+    WHERE c.candidate <> v_user
+      AND NOT c.candidate = ANY (v_paired)
+      AND NOT is_blocked_pair(v_user, c.candidate)
+    ORDER BY
+      EXISTS (
+        SELECT 1 FROM event_pairings ep
+        WHERE ep.event_id = p_event_id AND ep.user_id = v_user AND ep.partner_id = c.candidate
+      ),
+      c.ord
+    LIMIT 1;
+
+    -- Nobody left for this person; they sit this round out
+    CONTINUE WHEN v_partner IS NULL;
+
+    v_paired := v_paired || v_user || v_partner;
+
+    INSERT INTO rooms (
+      mode, status, format_id, acceptable_modes, is_private, event_id, event_round
+    )
+    VALUES (
+      v_event.mode, 'waiting', v_event.format_id, ARRAY[v_event.mode], true, p_event_id, p_round
+    )
+    RETURNING id INTO v_room_id;
+
+    INSERT INTO room_members (room_id, user_id, display_name, role)
+    SELECT v_room_id, p.user_id, p.display_name, CASE WHEN p.user_id = v_user THEN 'user1' ELSE 'user2' END
+    FROM event_participants p
+    WHERE p.event_id = p_event_id AND p.user_id IN (v_user, v_partner);
+
+    -- Matched by an update, as join_private_room does, so the room draws its
+    -- first prompt and records its first segment
+    UPDATE rooms
+    SET status = 'matched',
+        segment_start_at = now(),
+        segment_duration_sec = v_first_duration,
+        current_segment = 0,
+        round = 1
+    WHERE id = v_room_id;
+
+    INSERT INTO event_pairings (event_id, round, user_id, partner_id, room_id)
+    VALUES
+      (p_event_id, p_round, v_user, v_partner, v_room_id),
+      (p_event_id, p_round, v_partner, v_user, v_room_id);
+
+    INSERT INTO recent_pairs (room_id, user_a, user_b)
+    VALUES (v_room_id, v_user, v_partner);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pair_event_round(uuid, int) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,102 @@
+-- =============================================
+-- No time or mode requests in circles
+-- Requests were built for two people: the first other member to accept one
+-- (021, 022) extended, paused or switched the room for the whole circle.
+-- Circles now keep the time and mode they started with.
+-- Run after 037_event_rooms_start_matched.sql
+-- =============================================
+
+-- =============================================
+-- RPC: request_time_change
+-- Same as 035, but refuses circles
+-- =============================================
+
+CREATE OR REPLACE FUNCTION request_time_change(p_room_id uuid, p_kind text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_kind NOT IN ('extend', 'pause', 'resume') THEN
+    RAISE EXCEPTION 'Unknown time request: %', p_kind;
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active';
+  END IF;
+
+  IF v_room.circle_size IS NOT NULL THEN
+    RAISE EXCEPTION 'Circles keep to their schedule';
+  END IF;
+
+  IF p_kind = 'pause' AND v_room.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The conversation is already paused';
+  END IF;
+
+  IF p_kind = 'resume' AND v_room.paused_at IS NULL THEN
+    RAISE EXCEPTION 'The conversation is not paused';
+  END IF;
+
+  RETURN log_room_event(p_room_id, v_user_id, 'time_requested', jsonb_build_object(
+    'kind', p_kind,
+    'round', v_room.round,
+    'segment', v_room.current_segment
+  ));
+END;
+$$;
+
+-- =============================================
+-- RPC: request_mode_change
+-- Same as 022, but refuses circles
+-- =============================================
+
+CREATE OR REPLACE FUNCTION request_mode_change(p_room_id uuid, p_mode text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_room rooms;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_members WHERE room_id = p_room_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF p_mode NOT IN ('video', 'audio', 'text') THEN
+    RAISE EXCEPTION 'Unknown mode: %', p_mode;
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF v_room.status IS DISTINCT FROM 'matched' THEN
+    RAISE EXCEPTION 'This conversation is not active';
+  END IF;
+
+  IF v_room.circle_size IS NOT NULL THEN
+    RAISE EXCEPTION 'Circles keep the mode they started in';
+  END IF;
+
+  IF v_room.mode = p_mode THEN
+    RAISE EXCEPTION 'The conversation is already in % mode', p_mode;
+  END IF;
+
+  RETURN log_room_event(p_room_id, v_user_id, 'mode_requested', jsonb_build_object(
+    'from', v_room.mode,
+    'to', p_mode
+  ));
+END;
+$$;
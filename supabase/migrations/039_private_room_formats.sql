@@ -0,0 +1,52 @@
+-- =============================================
+-- Private rooms take only formats a caller can pick
+-- create_private_room (023) accepted any active format, so an invite link
+-- (024) or a connection invite (023) could open a 1:1 room on a circle
+-- format, or on a talker/listener format the matcher only assigns from both
+-- members' preferences (027). It now applies the matcher's check (031).
+-- Run after 038_no_circle_requests.sql
+-- =============================================
+
+-- =============================================
+-- INTERNAL: create_private_room
+-- Same as 023, but refuses circle and talker/listener formats
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_private_room(
+  p_user_id uuid,
+  p_mode text,
+  p_display_name text,
+  p_format_id text DEFAULT 'classic'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_first_duration int;
+  v_room_id uuid;
+BEGIN
+  IF p_mode NOT IN ('video', 'audio', 'text') THEN
+    RAISE EXCEPTION 'Unknown mode: %', p_mode;
+  END IF;
+
+  SELECT (segments -> 0 ->> 'duration_sec')::int INTO v_first_duration
+  FROM conversation_formats
+  WHERE id = p_format_id AND is_active AND talker_role IS NULL AND NOT for_circles;
+
+  IF v_first_duration IS NULL THEN
+    RAISE EXCEPTION 'Unknown conversation format: %', p_format_id;
+  END IF;
+
+  INSERT INTO rooms (mode, status, format_id, segment_duration_sec, acceptable_modes, is_private)
+  VALUES (p_mode, 'waiting', p_format_id, v_first_duration, ARRAY[p_mode], true)
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO room_members (room_id, user_id, display_name, role)
+  VALUES (v_room_id, p_user_id, p_display_name, 'user1');
+
+  RETURN v_room_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_private_room(uuid, text, text, text) FROM PUBLIC, anon, authenticated;